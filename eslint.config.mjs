@@ -16,5 +16,12 @@ export default tseslint.config(
       "@typescript-eslint/no-floating-promises": "error",
       "@typescript-eslint/await-thenable": "error",
     },
+  },
+  {
+    // Playwright requires fixtures to destructure their first argument, even when they use no other fixture
+    files: ["tests/fixtures/**"],
+    rules: {
+      "no-empty-pattern": "off",
+    },
   }
 );
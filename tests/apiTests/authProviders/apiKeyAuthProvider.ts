@@ -0,0 +1,58 @@
+import errorHandler from "../../helpers/errorHandler";
+import ENV from "../../utils/envVariables";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Sends an API key as a request header or query parameter.
+ * A header or query parameter of the same name passed with a request takes precedence.
+ */
+export default class ApiKeyAuthProvider implements interfaces.AuthProvider {
+  public readonly type = "api-key";
+
+  /**
+   * @param apiKey - The API key.
+   * @param name - The name of the header or query parameter. Defaults to API_AUTH.apiKey.name in appSettings.json.
+   * @param location - Whether the key is sent as a header or query parameter. Defaults to API_AUTH.apiKey.in.
+   */
+  constructor(
+    private readonly apiKey: string,
+    private readonly name: string = appSettings.API_AUTH.apiKey.name,
+    private readonly location: "header" | "query" = appSettings.API_AUTH.apiKey.in as
+      | "header"
+      | "query"
+  ) {
+    if (!apiKey) {
+      errorHandler.logAndThrowError("An API key is required for API key authentication.");
+    }
+    if (location !== "header" && location !== "query") {
+      errorHandler.logAndThrowError(
+        `Unknown API key location: ${location}. Expected one of: header, query`
+      );
+    }
+  }
+
+  /**
+   * Creates a provider from the decrypted API_KEY variable.
+   *
+   * @returns The auth provider.
+   * @throws {Error} If API_KEY is not set.
+   */
+  public static fromEnv(): ApiKeyAuthProvider {
+    return new ApiKeyAuthProvider(ENV.API_KEY!);
+  }
+
+  /**
+   * Adds the API key to the headers or query of the request.
+   *
+   * @param request - The request to authenticate.
+   * @returns The authenticated request.
+   */
+  public async authenticate(
+    request: interfaces.HttpRequestOptions
+  ): Promise<interfaces.HttpRequestOptions> {
+    return this.location === "header"
+      ? { ...request, headers: { [this.name]: this.apiKey, ...request.headers } }
+      : { ...request, query: { [this.name]: this.apiKey, ...request.query } };
+  }
+}
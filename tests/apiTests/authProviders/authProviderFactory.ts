@@ -0,0 +1,43 @@
+import BearerAuthProvider from "./bearerAuthProvider";
+import BasicAuthProvider from "./basicAuthProvider";
+import ApiKeyAuthProvider from "./apiKeyAuthProvider";
+import OAuth2ClientCredentialsAuthProvider from "./oauth2ClientCredentialsAuthProvider";
+import AzureAuthProvider from "./azureAuthProvider";
+import errorHandler from "../../helpers/errorHandler";
+import ENV from "../../utils/envVariables";
+import * as interfaces from "../../models/interfaces";
+
+export default class AuthProviderFactory {
+  /**
+   * Creates the auth provider of the API under test from the environment variables: the type
+   * is selected by API_AUTH_TYPE and the provider configured from the other API_* variables,
+   * with credentials decrypted from the environment file.
+   *
+   * @param type - The type of the provider. Defaults to API_AUTH_TYPE.
+   * @returns The auth provider, or undefined if no type is given or configured.
+   * @throws {Error} If the type is unknown or its variables are not set.
+   */
+  public static getProvider(
+    type: string | undefined = ENV.API_AUTH_TYPE
+  ): interfaces.AuthProvider | undefined {
+    switch (type) {
+      case undefined:
+      case "":
+        return undefined;
+      case "bearer":
+        return BearerAuthProvider.fromEnv();
+      case "basic":
+        return BasicAuthProvider.fromEnv();
+      case "api-key":
+        return ApiKeyAuthProvider.fromEnv();
+      case "oauth2-client-credentials":
+        return OAuth2ClientCredentialsAuthProvider.fromEnv();
+      case "azure":
+        return AzureAuthProvider.fromEnv();
+      default:
+        return errorHandler.logAndThrowError(
+          `Unknown auth provider: ${type}. Expected one of: bearer, basic, api-key, oauth2-client-credentials, azure`
+        );
+    }
+  }
+}
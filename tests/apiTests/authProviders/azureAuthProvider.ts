@@ -0,0 +1,61 @@
+import { TokenCredential } from "@azure/identity";
+import TokenAuthProvider from "./tokenAuthProvider";
+import errorHandler from "../../helpers/errorHandler";
+import AzureTokenUtil from "../../utils/azureTokenUtil";
+import ENV from "../../utils/envVariables";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Authenticates with Microsoft Entra ID access tokens, retrieved through the same
+ * DefaultAzureCredential flow the database connection uses.
+ */
+export default class AzureAuthProvider extends TokenAuthProvider {
+  public readonly type = "azure";
+
+  /**
+   * @param scope - The scope of the API, e.g. api://my-api/.default.
+   * @param credential - The credential used to get access tokens. Defaults to DefaultAzureCredential.
+   */
+  constructor(
+    private readonly scope: string,
+    private readonly credential: TokenCredential = AzureTokenUtil.getDefaultCredential()
+  ) {
+    super();
+    if (!scope) {
+      errorHandler.logAndThrowError("A scope is required for Azure authentication.");
+    }
+  }
+
+  /**
+   * Creates a provider from the API_SCOPE variable.
+   *
+   * @returns The auth provider.
+   * @throws {Error} If API_SCOPE is not set.
+   */
+  public static fromEnv(): AzureAuthProvider {
+    return new AzureAuthProvider(ENV.API_SCOPE!);
+  }
+
+  /**
+   * Requests an access token for the scope.
+   *
+   * @returns The access token and its expiry.
+   * @throws {Error} If the token cannot be retrieved.
+   */
+  protected async fetchToken(): Promise<interfaces.AccessToken> {
+    try {
+      const { token, expiresOnTimestamp } = await AzureTokenUtil.getAccessToken(
+        this.scope,
+        this.credential
+      );
+      return { token, tokenType: "Bearer", expiresAt: expiresOnTimestamp };
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "fetchToken",
+        `Failed to get an Azure access token for ${this.scope}`
+      );
+      throw error;
+    }
+  }
+}
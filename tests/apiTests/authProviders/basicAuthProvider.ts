@@ -0,0 +1,56 @@
+import errorHandler from "../../helpers/errorHandler";
+import ENV from "../../utils/envVariables";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Sends HTTP basic authentication credentials (RFC 7617).
+ * An Authorization header passed with a request takes precedence.
+ */
+export default class BasicAuthProvider implements interfaces.AuthProvider {
+  public readonly type = "basic";
+
+  private readonly authorization: string;
+
+  /**
+   * @param username - The username, which must not contain a colon.
+   * @param password - The password.
+   */
+  constructor(username: string, password: string) {
+    if (!username || password === undefined) {
+      errorHandler.logAndThrowError(
+        "A username and password are required for basic authentication."
+      );
+    }
+    if (username.includes(":")) {
+      errorHandler.logAndThrowError(
+        "The username for basic authentication must not contain a colon."
+      );
+    }
+    this.authorization = `Basic ${Buffer.from(`${username}:${password}`, "utf8").toString("base64")}`;
+  }
+
+  /**
+   * Creates a provider from the decrypted API_USERNAME and API_PASSWORD variables.
+   *
+   * @returns The auth provider.
+   * @throws {Error} If API_USERNAME or API_PASSWORD is not set.
+   */
+  public static fromEnv(): BasicAuthProvider {
+    return new BasicAuthProvider(ENV.API_USERNAME!, ENV.API_PASSWORD!);
+  }
+
+  /**
+   * Adds the Authorization header to the request.
+   *
+   * @param request - The request to authenticate.
+   * @returns The authenticated request.
+   */
+  public async authenticate(
+    request: interfaces.HttpRequestOptions
+  ): Promise<interfaces.HttpRequestOptions> {
+    return {
+      ...request,
+      headers: { Authorization: this.authorization, ...request.headers },
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import errorHandler from "../../helpers/errorHandler";
+import ENV from "../../utils/envVariables";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Sends a static bearer token, e.g. a personal access token of the API under test.
+ * An Authorization header passed with a request takes precedence.
+ */
+export default class BearerAuthProvider implements interfaces.AuthProvider {
+  public readonly type = "bearer";
+
+  /**
+   * @param token - The bearer token, without the "Bearer " prefix.
+   */
+  constructor(private readonly token: string) {
+    if (!token) {
+      errorHandler.logAndThrowError("A token is required for bearer authentication.");
+    }
+  }
+
+  /**
+   * Creates a provider from the decrypted API_TOKEN variable.
+   *
+   * @returns The auth provider.
+   * @throws {Error} If API_TOKEN is not set.
+   */
+  public static fromEnv(): BearerAuthProvider {
+    return new BearerAuthProvider(ENV.API_TOKEN!);
+  }
+
+  /**
+   * Adds the Authorization header to the request.
+   *
+   * @param request - The request to authenticate.
+   * @returns The authenticated request.
+   */
+  public async authenticate(
+    request: interfaces.HttpRequestOptions
+  ): Promise<interfaces.HttpRequestOptions> {
+    return {
+      ...request,
+      headers: { Authorization: `Bearer ${this.token}`, ...request.headers },
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import axios from "axios";
+import TokenAuthProvider from "./tokenAuthProvider";
+import errorHandler from "../../helpers/errorHandler";
+import ENV from "../../utils/envVariables";
+import logger from "../../utils/loggerUtil";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Authenticates with access tokens of the OAuth2 client credentials grant (RFC 6749, section 4.4).
+ * The client authenticates with HTTP basic authentication, or with form fields for providers
+ * that require them, e.g. Microsoft Entra ID.
+ */
+export default class OAuth2ClientCredentialsAuthProvider extends TokenAuthProvider {
+  public readonly type = "oauth2-client-credentials";
+
+  /**
+   * @param options - The token endpoint, client credentials, scope and audience.
+   */
+  constructor(private readonly options: interfaces.OAuth2ClientCredentialsOptions) {
+    super();
+    if (!options.tokenUrl || !options.clientId || !options.clientSecret) {
+      errorHandler.logAndThrowError(
+        "A token URL, client ID and client secret are required for the OAuth2 client credentials grant."
+      );
+    }
+  }
+
+  /**
+   * Creates a provider from the API_AUTH_URL, API_CLIENT_ID, decrypted API_CLIENT_SECRET and
+   * API_SCOPE variables.
+   *
+   * @returns The auth provider.
+   * @throws {Error} If API_AUTH_URL, API_CLIENT_ID or API_CLIENT_SECRET is not set.
+   */
+  public static fromEnv(): OAuth2ClientCredentialsAuthProvider {
+    return new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: ENV.API_AUTH_URL!,
+      clientId: ENV.API_CLIENT_ID!,
+      clientSecret: ENV.API_CLIENT_SECRET!,
+      scope: ENV.API_SCOPE,
+    });
+  }
+
+  /**
+   * Requests an access token from the token endpoint.
+   *
+   * @returns The access token and its expiry.
+   * @throws {Error} If the token request fails or the response has no access token.
+   */
+  protected async fetchToken(): Promise<interfaces.AccessToken> {
+    const { tokenUrl, clientId, clientSecret, scope, audience, credentialsInBody } = this.options;
+    const form = new URLSearchParams({ grant_type: "client_credentials" });
+    if (scope) form.set("scope", scope);
+    if (audience) form.set("audience", audience);
+    if (credentialsInBody) {
+      form.set("client_id", clientId);
+      form.set("client_secret", clientSecret);
+    }
+
+    try {
+      const requestedAt = Date.now();
+      const response = await axios.post<{
+        access_token?: string;
+        token_type?: string;
+        expires_in?: number | string;
+      }>(tokenUrl, form.toString(), {
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+          ...(credentialsInBody
+            ? {}
+            : {
+                // client ID and secret are form-urlencoded before basic encoding (RFC 6749, section 2.3.1)
+                Authorization: `Basic ${Buffer.from(
+                  `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`
+                ).toString("base64")}`,
+              }),
+        },
+      });
+
+      const { access_token, token_type, expires_in } = response.data;
+      if (!access_token) {
+        errorHandler.logAndThrowError(`The token response of ${tokenUrl} has no access_token.`);
+      }
+      logger.info(`Access token retrieved from ${tokenUrl}, expires in ${expires_in ?? "?"}s`);
+
+      return {
+        token: access_token,
+        // token types are case-insensitive, but some APIs only accept "Bearer"
+        tokenType: !token_type || token_type.toLowerCase() === "bearer" ? "Bearer" : token_type,
+        expiresAt: expires_in !== undefined ? requestedAt + Number(expires_in) * 1000 : undefined,
+      };
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "fetchToken",
+        `Failed to get an access token from ${tokenUrl} for client ${clientId}`
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Base class of auth providers that fetch expiring access tokens. The token is cached and
+ * fetched again once it is within API_AUTH.refreshBeforeExpirySeconds of expiring, so a
+ * request never goes out with a token that expires in flight. Concurrent requests share a
+ * single token request.
+ */
+export default abstract class TokenAuthProvider implements interfaces.AuthProvider {
+  public abstract readonly type: interfaces.AuthProviderType;
+
+  private cachedToken?: interfaces.AccessToken;
+  private pendingToken?: Promise<interfaces.AccessToken>;
+
+  /**
+   * Fetches a new access token.
+   *
+   * @returns The access token and its expiry.
+   */
+  protected abstract fetchToken(): Promise<interfaces.AccessToken>;
+
+  /**
+   * Returns the cached access token, or fetches a new one if there is none or it is about
+   * to expire.
+   *
+   * @returns The access token.
+   * @throws {Error} If the token cannot be fetched.
+   */
+  public async getToken(): Promise<interfaces.AccessToken> {
+    if (this.cachedToken && !this.isExpiring(this.cachedToken)) {
+      return this.cachedToken;
+    }
+
+    this.pendingToken ??= this.fetchToken()
+      .then((token) => (this.cachedToken = token))
+      .finally(() => (this.pendingToken = undefined));
+    return this.pendingToken;
+  }
+
+  /**
+   * Adds the Authorization header with the access token to the request.
+   *
+   * @param request - The request to authenticate.
+   * @returns The authenticated request.
+   * @throws {Error} If the token cannot be fetched.
+   */
+  public async authenticate(
+    request: interfaces.HttpRequestOptions
+  ): Promise<interfaces.HttpRequestOptions> {
+    const { token, tokenType } = await this.getToken();
+    return {
+      ...request,
+      headers: { Authorization: `${tokenType} ${token}`, ...request.headers },
+    };
+  }
+
+  /**
+   * Drops the cached token, e.g. after the API rejected it, so the next request fetches a new one.
+   */
+  public invalidate(): void {
+    this.cachedToken = undefined;
+  }
+
+  private isExpiring(token: interfaces.AccessToken): boolean {
+    return (
+      token.expiresAt !== undefined &&
+      token.expiresAt - appSettings.API_AUTH.refreshBeforeExpirySeconds * 1000 <= Date.now()
+    );
+  }
+}
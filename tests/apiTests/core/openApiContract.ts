@@ -0,0 +1,155 @@
+import * as fs from "fs";
+import * as path from "path";
+import errorHandler from "../../helpers/errorHandler";
+import logger from "../../utils/loggerUtil";
+import SchemaValidator from "../../utils/schemaValidator";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * The response contracts of a local OpenAPI 3 (or Swagger 2.0) document in JSON. The schema of a
+ * response is looked up by method, request path and status code, the way the API would match it.
+ *
+ * Request paths are matched against the path templates of the document from the end, so the base
+ * path and version prefix of the API URL need not be part of the document: /api/v1/users/42
+ * matches /users/{id}. Longer templates win, and among templates of the same length the one with
+ * more literal segments wins, so /users/me is preferred over /users/{id}.
+ */
+export default class OpenApiContract {
+  private static readonly cache = new Map<string, OpenApiContract>();
+
+  /**
+   * @param document - The parsed OpenAPI document.
+   */
+  constructor(public readonly document: interfaces.OpenApiDocument) {
+    if (!document?.paths) {
+      errorHandler.logAndThrowError("The OpenAPI document has no paths.");
+    }
+  }
+
+  /**
+   * Loads an OpenAPI document from a JSON file. Documents are cached by their absolute path.
+   *
+   * @param filePath - The path of the document, relative to the working directory.
+   * @returns The contract.
+   * @throws {Error} If the file cannot be read or is not a valid OpenAPI document.
+   */
+  public static fromFile(filePath: string): OpenApiContract {
+    const absolutePath = path.resolve(filePath);
+    const cached = OpenApiContract.cache.get(absolutePath);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const document = JSON.parse(fs.readFileSync(absolutePath, "utf8"));
+      const contract = new OpenApiContract(document);
+      OpenApiContract.cache.set(absolutePath, contract);
+      logger.info(`Loaded OpenAPI document ${absolutePath}`);
+      return contract;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "fromFile",
+        `Failed to load OpenAPI document ${absolutePath}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the path template of the document that matches a request URL or path.
+   *
+   * @param url - The absolute URL or the path of the request.
+   * @returns The path template, e.g. /users/{id}, or undefined if none matches.
+   */
+  public findPath(url: string): string | undefined {
+    const segments = this.splitPath(new URL(url, "http://localhost").pathname).map((segment) =>
+      decodeURIComponent(segment)
+    );
+
+    const candidates = Object.keys(this.document.paths)
+      .map((template) => ({ template, templateSegments: this.splitPath(template) }))
+      .filter(({ templateSegments }) => {
+        if (templateSegments.length > segments.length) {
+          return false;
+        }
+        const tail = segments.slice(segments.length - templateSegments.length);
+        return templateSegments.every(
+          (templateSegment, index) =>
+            this.isParameter(templateSegment) || templateSegment === tail[index]
+        );
+      })
+      .sort(
+        (a, b) =>
+          b.templateSegments.length - a.templateSegments.length ||
+          this.countLiterals(b.templateSegments) - this.countLiterals(a.templateSegments)
+      );
+
+    return candidates[0]?.template;
+  }
+
+  /**
+   * Finds the documented schema of a response body. The status code is looked up exactly, then by
+   * its range (e.g. 4XX), then as default. JSON content types are preferred.
+   *
+   * @param method - The HTTP method of the request.
+   * @param url - The absolute URL or the path of the request.
+   * @param status - The status code of the response.
+   * @returns The schema, or undefined if the response is documented without a body.
+   * @throws {Error} If the path, the operation or the status code is not documented.
+   */
+  public getResponseSchema(
+    method: string,
+    url: string,
+    status: number
+  ): interfaces.JsonSchema | undefined {
+    const template = this.findPath(url);
+    if (!template) {
+      return errorHandler.logAndThrowError(`No path of the OpenAPI document matches ${url}`);
+    }
+
+    const operation = this.document.paths[template][method.toLowerCase()];
+    if (!operation?.responses) {
+      return errorHandler.logAndThrowError(
+        `Operation ${method.toUpperCase()} ${template} is not documented`
+      );
+    }
+
+    let response =
+      operation.responses[String(status)] ??
+      operation.responses[`${String(status)[0]}XX`] ??
+      operation.responses.default;
+    if (!response) {
+      return errorHandler.logAndThrowError(
+        `Status ${status} is not documented for ${method.toUpperCase()} ${template}`
+      );
+    }
+    if (response.$ref) {
+      response = SchemaValidator.resolveRef<interfaces.OpenApiResponse>(
+        response.$ref,
+        this.document
+      );
+    }
+
+    if (response.content) {
+      const mediaTypes = Object.keys(response.content);
+      const mediaType =
+        mediaTypes.find((type) => /^application\/(?:[\w.+-]+\+)?json\b/.test(type)) ??
+        mediaTypes[0];
+      return mediaType ? response.content[mediaType].schema : undefined;
+    }
+    return response.schema;
+  }
+
+  private splitPath(pathname: string): string[] {
+    return pathname.split("/").filter(Boolean);
+  }
+
+  private isParameter(segment: string): boolean {
+    return /^\{[^}]+\}$/.test(segment);
+  }
+
+  private countLiterals(segments: string[]): number {
+    return segments.filter((segment) => !this.isParameter(segment)).length;
+  }
+}
@@ -1,72 +1,260 @@
 import axios, { AxiosResponse } from "axios";
 import errorHandler from "../../helpers/errorHandler";
+import * as interfaces from "../../models/interfaces";
+import { HttpMethod } from "../../models/utilityEnums";
+import logger from "../../utils/loggerUtil";
+import RetryHandler from "./retryHandler";
 
 export default class RestHttpClient {
 
   private defaultHeaders: { [key: string]: string };
 
-  constructor() {
+  private retryPolicy?: Partial<interfaces.RetryPolicy>;
+
+  private authProvider?: interfaces.AuthProvider;
+
+  private interceptors: interfaces.HttpInterceptor[] = [];
+
+  /**
+   * Creates a client.
+   * @param retryPolicy Retry policy of every request of the client, merged over the configured HTTP_RETRY defaults
+   * @param authProvider Authentication of every request of the client, e.g. from AuthProviderFactory.getProvider()
+   */
+  constructor(
+    retryPolicy?: Partial<interfaces.RetryPolicy>,
+    authProvider?: interfaces.AuthProvider
+  ) {
     this.defaultHeaders = {
       "Content-Type": "application/json",
     };
+    this.retryPolicy = retryPolicy;
+    this.authProvider = authProvider;
+  }
+
+  /**
+   * Sets the authentication of every following request of the client.
+   * @param authProvider The auth provider, or undefined to send requests without authentication
+   */
+  setAuthProvider(authProvider?: interfaces.AuthProvider): void {
+    this.authProvider = authProvider;
+  }
+
+  /**
+   * Adds an interceptor to every following exchange of the client, replacing any interceptor
+   * of the same name.
+   * @param interceptor The interceptor, e.g. a CorrelationIdInterceptor or HttpRecorder
+   * @returns The client, so interceptors can be chained
+   */
+  use(interceptor: interfaces.HttpInterceptor): this {
+    this.removeInterceptor(interceptor.name);
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * Removes an interceptor from the client.
+   * @param name The name of the interceptor
+   */
+  removeInterceptor(name: string): void {
+    this.interceptors = this.interceptors.filter((interceptor) => interceptor.name !== name);
   }
 
   /**
    * Creates headers for the HTTP request.
    * If authorizationHeader is provided, it will be set as the Authorization header.
-   * Otherwise, only the Content-Type header is set with a value of application/json.
+   * Otherwise, no headers are added to the defaults.
    * @param authorizationHeader Authorization header value
    * @returns Headers object
    */
   private createHeaders(authorizationHeader?: string): {
     [key: string]: string;
   } {
-    const headers = { ...this.defaultHeaders };
+    const headers: { [key: string]: string } = {};
     if (authorizationHeader) {
       headers["Authorization"] = authorizationHeader;
     }
     return headers;
   }
 
-/**
- * Sends an HTTP request using the specified method, endpoint, payload, and headers.
- * Handles errors by logging them and returning the error response if it is an Axios error.
- *
- * @template T - The expected response type.
- * @param method - The HTTP method to use for the request (e.g., "post", "patch", "get", "delete").
- * @param endpoint - The URL endpoint to which the request is sent.
- * @param payload - The optional payload to be included in the request body.
- * @param headers - Optional headers to be included in the request.
- * @returns A promise that resolves with the Axios response of the specified type.
- * @throws Will throw an error if an unexpected error occurs.
- */
-  private async sendRequest<T>(
-    method: "post" | "patch" | "get" | "delete",
-    endpoint: string,
-    payload?: object,
-    headers?: { [key: string]: string }
-  ): Promise<AxiosResponse<T>> {
+  /**
+   * Serializes query parameters and appends them to the URL, after any query it already has.
+   * Keys and values are percent-encoded, arrays repeat the key (ids=1&ids=2), dates are sent
+   * as ISO timestamps, and null or undefined values are left out.
+   *
+   * @param url - The URL of the request.
+   * @param query - The query parameters.
+   * @returns The URL with the serialized query.
+   */
+  public static buildUrl(url: string, query?: interfaces.QueryParams): string {
+    const pairs: string[] = [];
+
+    for (const [key, value] of Object.entries(query ?? {})) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item === null || item === undefined) {
+          continue;
+        }
+        const serialized = item instanceof Date ? item.toISOString() : String(item);
+        pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(serialized)}`);
+      }
+    }
+    if (pairs.length === 0) {
+      return url;
+    }
+
+    const [base, fragment] = url.split("#", 2);
+    const separator = !base.includes("?") ? "?" : /[?&]$/.test(base) ? "" : "&";
+    return `${base}${separator}${pairs.join("&")}${fragment !== undefined ? `#${fragment}` : ""}`;
+  }
+
+  /**
+   * Sends an HTTP request of any method. The body is only sent when given, so GET, HEAD and
+   * DELETE requests carry no payload unless asked to. The request is authenticated by the
+   * auth provider of the client, unless skipAuth is set; if the API rejects a cached token
+   * with a 401, the token is dropped and the request sent once more with a new one. Each
+   * exchange then passes through the interceptors of the client. Failed
+   * attempts are retried according to the retry policy of the client and the request, and
+   * every attempt is logged with its timing. Handles errors by logging them and returning
+   * the error response if it is an Axios error.
+   *
+   * @template T - The expected response type.
+   * @param options - The method, URL, query, body, headers, timeout, response type, abort signal and retry policy.
+   * @returns A promise that resolves with the response and its metadata: method, final URL,
+   *          start time, duration and number of attempts.
+   * @throws Will throw an error if no response is received, e.g. on a timeout, an abort or a network error,
+   *         or if the auth provider cannot get a token.
+   */
+  async request<T>(options: interfaces.HttpRequestOptions): Promise<interfaces.HttpResponse<T>> {
+    const authProvider = options.skipAuth ? undefined : this.authProvider;
+    const authenticate = async () =>
+      authProvider ? authProvider.authenticate(options) : options;
+
+    const response = await this.exchange<T>(await authenticate());
+    if (response.status !== 401 || !authProvider?.invalidate) {
+      return response;
+    }
+
+    logger.warn(
+      `[${options.method} Request] ${options.url} was rejected with 401, retrying with a new ${authProvider.type} token`
+    );
+    authProvider.invalidate();
+    return this.exchange<T>(await authenticate());
+  }
+
+  /**
+   * Runs the request hooks of the interceptors, sends the request and runs the response
+   * hooks on the response, or the error hooks if no response is received.
+   *
+   * @template T - The expected response type.
+   * @param options - The authenticated request.
+   * @returns A promise that resolves with the response and its metadata.
+   * @throws Will throw an error if no response is received, or if an interceptor fails.
+   */
+  private async exchange<T>(
+    options: interfaces.HttpRequestOptions
+  ): Promise<interfaces.HttpResponse<T>> {
+    const interceptors = [...this.interceptors];
+    let request = options;
+    for (const interceptor of interceptors) {
+      request = (await interceptor.onRequest?.(request)) ?? request;
+    }
+
+    const metadata: interfaces.HttpRequestMetadata = {
+      method: request.method,
+      url: RestHttpClient.buildUrl(request.url, request.query),
+      startedAt: new Date().toISOString(),
+      durationMs: 0,
+      attempts: 0,
+    };
     try {
-      return await axios[method](endpoint, payload, {
-        headers: { ...this.defaultHeaders, ...headers },
-      });
+      let response = (await this.send<T>(request, metadata)) as interfaces.HttpResponse;
+      for (const interceptor of [...interceptors].reverse()) {
+        response = (await interceptor.onResponse?.(response, request)) ?? response;
+      }
+      return response as interfaces.HttpResponse<T>;
     } catch (error) {
-      // If the error is an Axios error, we can return the response directly
-      if (axios.isAxiosError(error) && error.response) {
-        errorHandler.handleApiResponse(`[${method.toUpperCase()} Request]`, error);
-        return error.response; // return the error response, this help to reduce duplicate errors message as we have centralized error handling
+      for (const interceptor of [...interceptors].reverse()) {
+        await interceptor.onError?.(error, request, metadata);
       }
-
-      // For other errors, handle them normally
-      errorHandler.logGeneralError(error,`[${method.toUpperCase()} Request]`);
       throw error;
     }
   }
 
+  /**
+   * Sends a request, retrying failed attempts according to the retry policy.
+   *
+   * @template T - The expected response type.
+   * @param options - The authenticated request.
+   * @param metadata - The metadata of the exchange, updated with the final URL, duration and attempts.
+   * @returns A promise that resolves with the response and its metadata.
+   * @throws Will throw an error if no response is received.
+   */
+  private async send<T>(
+    options: interfaces.HttpRequestOptions,
+    metadata: interfaces.HttpRequestMetadata
+  ): Promise<interfaces.HttpResponse<T>> {
+    const url = metadata.url;
+    const retryPolicy = RetryHandler.resolvePolicy(this.retryPolicy, options.retry);
+    const methodName = `[${options.method} Request]`;
+    const start = performance.now();
+
+    const withMetadata = (response: AxiosResponse<T>): interfaces.HttpResponse<T> => {
+      // the URL of the last request when redirects were followed
+      metadata.url = response.request?.res?.responseUrl ?? url;
+      return Object.assign(response, { metadata });
+    };
+
+    for (;;) {
+      const attempt = ++metadata.attempts;
+      const attemptStart = performance.now();
+      const attemptLabel = `${methodName} ${url} attempt ${attempt}/${retryPolicy.maxAttempts}`;
+
+      try {
+        const response = await axios.request<T>({
+          method: options.method,
+          url,
+          data: options.body,
+          headers: { ...this.defaultHeaders, ...options.headers },
+          timeout: options.timeout,
+          responseType: options.responseType,
+          signal: options.signal,
+        });
+        metadata.durationMs = Math.round(performance.now() - start);
+        logger.info(
+          `${attemptLabel}: ${response.status} in ${Math.round(performance.now() - attemptStart)}ms`
+        );
+        return withMetadata(response);
+      } catch (error) {
+        const outcome = axios.isAxiosError(error)
+          ? error.response?.status ?? error.code ?? error.message
+          : error;
+        const delay = RetryHandler.getRetryDelay(error, options.method, attempt, retryPolicy);
+        metadata.durationMs = Math.round(performance.now() - start);
+        logger.warn(
+          `${attemptLabel}: ${outcome} in ${Math.round(performance.now() - attemptStart)}ms` +
+            (delay !== undefined ? `, retrying in ${delay}ms` : "")
+        );
+
+        if (delay !== undefined && !options.signal?.aborted) {
+          await RetryHandler.wait(delay, options.signal);
+          continue;
+        }
+
+        // If the error is an Axios error, we can return the response directly
+        if (axios.isAxiosError<T>(error) && error.response) {
+          errorHandler.handleApiResponse(methodName, error);
+          return withMetadata(error.response); // return the error response, this help to reduce duplicate errors message as we have centralized error handling
+        }
+
+        // For other errors, handle them normally
+        errorHandler.logGeneralError(error, methodName, `Request to ${url} failed`);
+        throw error;
+      }
+    }
+  }
+
   /**
    * Sends an HTTP POST request to the specified endpoint with the given payload and headers.
    * If authorizationHeader is provided, it will be set as the Authorization header.
-   * Otherwise, only the Content-Type header is set with a value of application/json.
    * If the request is successful, the response data is returned.
    * If an error occurs, the error response is returned.
    * If an unexpected error occurs, the error is thrown.
@@ -81,20 +269,44 @@ export default class RestHttpClient {
     endpoint: string,
     payload?: object,
     authorizationHeader?: string
-  ): Promise<AxiosResponse<T> | null> {
-    try{
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest("post", endpoint, payload, headers);
-    } catch (error) {
-      errorHandler.logGeneralError(error,`[POST Request]`);
-      throw error;
-    }
+  ): Promise<interfaces.HttpResponse<T>> {
+    return this.request<T>({
+      method: HttpMethod.POST,
+      url: endpoint,
+      body: payload,
+      headers: this.createHeaders(authorizationHeader),
+    });
+  }
+
+  /**
+   * Sends an HTTP PUT request to the specified endpoint with the given payload and headers.
+   * If authorizationHeader is provided, it will be set as the Authorization header.
+   * If the request is successful, the response data is returned.
+   * If an error occurs, the error response is returned.
+   * If an unexpected error occurs, the error is thrown.
+   * @template T - The expected response type.
+   * @param endpoint - The URL endpoint to which the request is sent.
+   * @param payload - The payload to be included in the request body.
+   * @param authorizationHeader - Optional Authorization header value.
+   * @returns A promise that resolves with the Axios response of the specified type.
+   * @throws Will throw an error if an unexpected error occurs.
+   */
+  async sendPutRequest<T>(
+    endpoint: string,
+    payload: object,
+    authorizationHeader?: string
+  ): Promise<interfaces.HttpResponse<T>> {
+    return this.request<T>({
+      method: HttpMethod.PUT,
+      url: endpoint,
+      body: payload,
+      headers: this.createHeaders(authorizationHeader),
+    });
   }
 
   /**
    * Sends an HTTP PATCH request to the specified endpoint with the given payload and headers.
    * If authorizationHeader is provided, it will be set as the Authorization header.
-   * Otherwise, only the Content-Type header is set with a value of application/json.
    * If the request is successful, the response data is returned.
    * If an error occurs, the error response is returned.
    * If an unexpected error occurs, the error is thrown.
@@ -109,46 +321,44 @@ export default class RestHttpClient {
     endpoint: string,
     payload: object,
     authorizationHeader?: string
-  ): Promise<AxiosResponse<T> | null> {
-    try{
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest("patch", endpoint, payload, headers);
-    } catch (error) {
-      errorHandler.logGeneralError(error,`[PATCH Request]`);
-      throw error;
-    }
+  ): Promise<interfaces.HttpResponse<T>> {
+    return this.request<T>({
+      method: HttpMethod.PATCH,
+      url: endpoint,
+      body: payload,
+      headers: this.createHeaders(authorizationHeader),
+    });
   }
 
 /**
  * Sends an HTTP GET request to the specified endpoint.
  * If authorizationHeader is provided, it will be set as the Authorization header.
- * Otherwise, only the Content-Type header is set with a value of application/json.
  * If the request is successful, the response data is returned.
  * If an error occurs, the error response is returned.
  * If an unexpected error occurs, the error is thrown.
  * @template T - The expected response type.
  * @param endpoint - The URL endpoint to which the request is sent.
  * @param authorizationHeader - Optional Authorization header value.
+ * @param query - Optional query parameters.
  * @returns A promise that resolves with the Axios response of the specified type.
  * @throws Will throw an error if an unexpected error occurs.
  */
   async sendGetRequest<T>(
     endpoint: string,
-    authorizationHeader?: string
-  ): Promise<AxiosResponse<T> | null> {
-    try{
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest("get", endpoint, undefined, headers);
-    } catch (error) {
-      errorHandler.logGeneralError(error,`[GET Request]`);
-      throw error;
-    }
+    authorizationHeader?: string,
+    query?: interfaces.QueryParams
+  ): Promise<interfaces.HttpResponse<T>> {
+    return this.request<T>({
+      method: HttpMethod.GET,
+      url: endpoint,
+      query,
+      headers: this.createHeaders(authorizationHeader),
+    });
   }
 
 /**
  * Sends an HTTP DELETE request to the specified endpoint.
  * If authorizationHeader is provided, it will be set as the Authorization header.
- * Otherwise, only the Content-Type header is set with a value of application/json.
  * If the request is successful, the response data is returned.
  * If an error occurs, the error response is returned.
  * If an unexpected error occurs, the error is thrown.
@@ -161,13 +371,11 @@ export default class RestHttpClient {
   async sendDeleteRequest<T>(
     endpoint: string,
     authorizationHeader?: string
-  ): Promise<AxiosResponse<T> | null> {
-    try{
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest("delete", endpoint, undefined, headers);
-    } catch (error) {
-      errorHandler.logGeneralError(error,`[DELETE Request]`);
-      throw error;
-    }
+  ): Promise<interfaces.HttpResponse<T>> {
+    return this.request<T>({
+      method: HttpMethod.DELETE,
+      url: endpoint,
+      headers: this.createHeaders(authorizationHeader),
+    });
   }
 }
@@ -0,0 +1,125 @@
+import axios from "axios";
+import * as interfaces from "../../models/interfaces";
+import { HttpMethod } from "../../models/utilityEnums";
+import * as appSettings from "../../config/appSettings.json";
+
+export default class RetryHandler {
+  // Methods that can be sent twice without changing the result (RFC 9110, section 9.2.2)
+  private static readonly IDEMPOTENT_METHODS = [
+    HttpMethod.GET,
+    HttpMethod.HEAD,
+    HttpMethod.OPTIONS,
+    HttpMethod.PUT,
+    HttpMethod.DELETE,
+  ];
+
+  // Status codes whose Retry-After header says when to try again
+  private static readonly RETRY_AFTER_STATUS_CODES = [429, 503];
+
+  /**
+   * Resolves a retry policy from the configured defaults and any overrides, later ones
+   * taking precedence.
+   *
+   * @param overrides - The policies of the client and the request.
+   * @returns The retry policy.
+   */
+  public static resolvePolicy(
+    ...overrides: (Partial<interfaces.RetryPolicy> | undefined)[]
+  ): interfaces.RetryPolicy {
+    return Object.assign({}, appSettings.HTTP_RETRY, ...overrides.filter(Boolean));
+  }
+
+  /**
+   * Decides whether a failed attempt is retried, and after how long. An attempt is retried
+   * if attempts are left, the method is idempotent or non-idempotent retries are enabled,
+   * and it failed with a retryable status code or network error. A Retry-After header of a
+   * 429 or 503 response is used instead of the backoff, unless it asks to wait longer than
+   * the maximum delay.
+   *
+   * @param error - The error of the attempt.
+   * @param method - The method of the request.
+   * @param attempt - The number of the attempt, starting at 1.
+   * @param policy - The retry policy.
+   * @returns The delay in milliseconds before the next attempt, or undefined to stop retrying.
+   */
+  public static getRetryDelay(
+    error: unknown,
+    method: HttpMethod,
+    attempt: number,
+    policy: interfaces.RetryPolicy
+  ): number | undefined {
+    if (attempt >= policy.maxAttempts || !axios.isAxiosError(error)) {
+      return undefined;
+    }
+    if (!policy.retryNonIdempotent && !this.IDEMPOTENT_METHODS.includes(method)) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    const retryable =
+      status !== undefined
+        ? policy.retryableStatusCodes.includes(status)
+        : policy.retryableErrorCodes.includes(error.code ?? "");
+    if (!retryable) {
+      return undefined;
+    }
+
+    if (status !== undefined && this.RETRY_AFTER_STATUS_CODES.includes(status)) {
+      const retryAfter = this.parseRetryAfter(error.response?.headers["retry-after"]);
+      if (retryAfter !== undefined) {
+        return retryAfter <= policy.maxDelayMs ? retryAfter : undefined;
+      }
+    }
+    return this.getBackoffDelay(attempt, policy);
+  }
+
+  /**
+   * Calculates the exponential backoff delay after an attempt: the base delay doubled for
+   * every earlier retry, capped at the maximum delay. With jitter, the delay is a random
+   * value between half and all of it, so clients that failed together do not retry together.
+   *
+   * @param attempt - The number of the failed attempt, starting at 1.
+   * @param policy - The retry policy.
+   * @returns The delay in milliseconds.
+   */
+  public static getBackoffDelay(attempt: number, policy: interfaces.RetryPolicy): number {
+    const delay = Math.min(policy.baseDelayMs * 2 ** (attempt - 1), policy.maxDelayMs);
+    return policy.jitter ? Math.round(delay / 2 + Math.random() * (delay / 2)) : delay;
+  }
+
+  /**
+   * Parses a Retry-After header, given either as seconds or as an HTTP date.
+   *
+   * @param value - The header value.
+   * @param now - The current time in milliseconds since the epoch. Defaults to now.
+   * @returns The delay in milliseconds, or undefined if the header is missing or invalid.
+   */
+  public static parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+    if (typeof value !== "string" || value.trim() === "") {
+      return undefined;
+    }
+    if (/^\d+$/.test(value.trim())) {
+      return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+  }
+
+  /**
+   * Waits before the next attempt, stopping early if the request is aborted.
+   *
+   * @param delayMs - The delay in milliseconds.
+   * @param signal - The abort signal of the request.
+   */
+  public static async wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, delayMs);
+      signal?.addEventListener("abort", done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
+  }
+}
@@ -1,13 +1,19 @@
 import logger from "../../utils/loggerUtil";
 import ENV from "../../utils/envVariables";
 import errorHandler from "../../helpers/errorHandler";
+import RestHttpClient from "../core/restHttpClient";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
 
 export default class BaseRoutes {
   public readonly baseUrl: string;
 
-  constructor() {
+  /**
+   * @param baseUrl - The base URL of the API, including any base path. Defaults to the API_URL variable.
+   */
+  constructor(baseUrl?: string) {
     // Initialize the base URL
-    this.baseUrl = this.initializeBaseUrl();
+    this.baseUrl = baseUrl ?? this.initializeBaseUrl();
   }
 
   /**
@@ -58,7 +64,7 @@ export default class BaseRoutes {
     }
 
     try {
-      const fullUrl = new URL(endpoint, this.baseUrl).toString();
+      const fullUrl = BaseRoutes.joinUrl(this.baseUrl, endpoint);
       logger.info(`${type} URL generated: ${fullUrl}`);
       return fullUrl;
     } catch (error) {
@@ -67,4 +73,102 @@ export default class BaseRoutes {
       throw new Error(errorMessage); // Throwing a more specific error
     }
   }
+
+  /**
+   * Joins a base URL and path segments with exactly one slash between them. Unlike
+   * new URL(path, base), the base path is kept: https://host/api and users give
+   * https://host/api/users, not https://host/users. A trailing slash of the last segment is kept.
+   *
+   * @param baseUrl - The absolute base URL.
+   * @param segments - The path segments, already encoded.
+   * @returns The joined URL.
+   * @throws {Error} If the base URL is not an absolute URL.
+   */
+  public static joinUrl(baseUrl: string, ...segments: string[]): string {
+    // validates the base URL, which must be absolute
+    new URL(baseUrl);
+
+    const path = segments
+      .map((segment) => segment.replace(/^\/+|\/+$/g, ""))
+      .filter(Boolean)
+      .join("/");
+    const trailingSlash = /\/$/.test(segments[segments.length - 1] ?? "") && path ? "/" : "";
+    return path
+      ? `${baseUrl.replace(/\/+$/, "")}/${path}${trailingSlash}`
+      : baseUrl;
+  }
+
+  /**
+   * Replaces the ":name" parameters of a route path with their percent-encoded values.
+   *
+   * @param path - The route path, e.g. /users/:id.
+   * @param params - The values of the parameters.
+   * @returns The path with the parameters replaced, e.g. /users/42.
+   * @throws {Error} If a parameter has no value or an empty value.
+   */
+  public static buildPath(path: string, params: Record<string, string | number> = {}): string {
+    return path.replace(/:([A-Za-z_][A-Za-z0-9_]*)/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined || value === null || String(value) === "") {
+        return errorHandler.logAndThrowError(
+          `Missing value of path parameter "${name}" of route ${path}`
+        );
+      }
+      return encodeURIComponent(String(value));
+    });
+  }
+
+  /**
+   * Creates compile-time checked URL builders from a route table. Each builder requires
+   * exactly the path parameters of its route, adds the API version prefix and the encoded
+   * query, and joins the result to the base URL.
+   *
+   * @example
+   * public readonly users = this.defineRoutes({
+   *   list: { path: "/users" },
+   *   get: { path: "/users/:id" },
+   *   orders: { path: "/users/:id/orders/:orderId", version: "v2" },
+   * });
+   * // with API_ROUTES.defaultVersion set to v1
+   * routes.users.get({ params: { id: 42 } }); // https://host/api/v1/users/42
+   * routes.users.list({ query: { page: 2 } }); // https://host/api/v1/users?page=2
+   *
+   * @param routes - The route table, keyed by the name of each builder.
+   * @returns The URL builders, keyed like the route table.
+   */
+  protected defineRoutes<const T extends Record<string, interfaces.RouteDefinition>>(
+    routes: T
+  ): interfaces.RouteBuilders<T> {
+    return Object.fromEntries(
+      Object.entries(routes).map(([name, route]) => [
+        name,
+        (options?: Partial<interfaces.RouteOptions<string>>) =>
+          this.buildRouteUrl(route, options?.params, options?.query),
+      ])
+    ) as unknown as interfaces.RouteBuilders<T>;
+  }
+
+  /**
+   * Builds the URL of a route.
+   *
+   * @param route - The route.
+   * @param params - The values of the path parameters.
+   * @param query - The query parameters.
+   * @returns The absolute URL.
+   * @throws {Error} If a path parameter is missing.
+   */
+  public buildRouteUrl(
+    route: interfaces.RouteDefinition,
+    params?: Record<string, string | number>,
+    query?: interfaces.QueryParams
+  ): string {
+    const version =
+      route.version === undefined ? appSettings.API_ROUTES.defaultVersion : route.version;
+    const url = BaseRoutes.joinUrl(
+      this.baseUrl,
+      version ?? "",
+      BaseRoutes.buildPath(route.path, params)
+    );
+    return RestHttpClient.buildUrl(url, query);
+  }
 }
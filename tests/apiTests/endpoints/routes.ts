@@ -1,6 +1,16 @@
 import BaseRoutes from "./baseRoutes";
 
+/**
+ * Route registry of the API under test. Declare each group of endpoints with defineRoutes, so
+ * specs build URLs through compile-time checked builders instead of assembling strings:
+ *
+ *   public readonly users = this.defineRoutes({
+ *     list: { path: "/users" },
+ *     get: { path: "/users/:id" },
+ *   });
+ *
+ *   await apiClient.sendGetRequest(routes.users.get({ params: { id: 42 } }));
+ */
 export default class Routes extends BaseRoutes {
-  
 
 }
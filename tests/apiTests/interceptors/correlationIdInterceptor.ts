@@ -0,0 +1,40 @@
+import * as crypto from "crypto";
+import logger from "../../utils/loggerUtil";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Adds a unique correlation ID header to every request, so a failing exchange can be found in
+ * the logs of the API under test. A correlation ID passed with a request is kept.
+ */
+export default class CorrelationIdInterceptor implements interfaces.HttpInterceptor {
+  public readonly name = "correlation-id";
+
+  /**
+   * @param headerName - The name of the header. Defaults to API_INTERCEPTORS.correlationIdHeader in appSettings.json.
+   * @param generateId - Generates the correlation IDs. Defaults to random UUIDs.
+   */
+  constructor(
+    private readonly headerName: string = appSettings.API_INTERCEPTORS.correlationIdHeader,
+    private readonly generateId: () => string = () => crypto.randomUUID()
+  ) {}
+
+  /**
+   * Adds the correlation ID header to the request, unless it already has one.
+   *
+   * @param request - The request.
+   * @returns The request with the correlation ID header.
+   */
+  public onRequest(request: interfaces.HttpRequestOptions): interfaces.HttpRequestOptions {
+    const existing = Object.keys(request.headers ?? {}).find(
+      (name) => name.toLowerCase() === this.headerName.toLowerCase()
+    );
+    if (existing) {
+      return request;
+    }
+
+    const correlationId = this.generateId();
+    logger.info(`[${request.method} Request] ${request.url} ${this.headerName}: ${correlationId}`);
+    return { ...request, headers: { ...request.headers, [this.headerName]: correlationId } };
+  }
+}
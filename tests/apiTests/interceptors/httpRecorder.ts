@@ -0,0 +1,209 @@
+import * as fs from "fs";
+import * as path from "path";
+import axios, { InternalAxiosRequestConfig } from "axios";
+import { TestInfo } from "@playwright/test";
+import RestHttpClient from "../core/restHttpClient";
+import RedactionInterceptor from "./redactionInterceptor";
+import errorHandler from "../../helpers/errorHandler";
+import logger from "../../utils/loggerUtil";
+import SecretRedactor from "../../utils/secretRedactor";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Records every exchange of an API client as an HTTP Archive (HAR 1.2) entry, so a failing
+ * API test can be debugged from its report. Headers and fields that carry credentials are
+ * masked, and every secret known to the SecretRedactor is masked when the archive is saved.
+ * Bodies longer than API_RECORDING.maxBodyLength are truncated.
+ */
+export default class HttpRecorder implements interfaces.HttpInterceptor {
+  public readonly name = "recorder";
+
+  public readonly entries: interfaces.HarEntry[] = [];
+
+  /**
+   * Records an exchange that received a response.
+   *
+   * @param response - The response.
+   * @param request - The request.
+   * @returns The response, unchanged.
+   */
+  public onResponse(
+    response: interfaces.HttpResponse,
+    request: interfaces.HttpRequestOptions
+  ): interfaces.HttpResponse {
+    this.entries.push(this.createEntry(request, response.metadata, response.config, response));
+    return response;
+  }
+
+  /**
+   * Records an exchange that received no response, e.g. after a timeout or network error.
+   *
+   * @param error - The error of the exchange.
+   * @param request - The request.
+   * @param metadata - The metadata of the exchange.
+   */
+  public onError(
+    error: unknown,
+    request: interfaces.HttpRequestOptions,
+    metadata: interfaces.HttpRequestMetadata
+  ): void {
+    const config = axios.isAxiosError(error) ? error.config : undefined;
+    const entry = this.createEntry(request, metadata, config);
+    entry._error = error instanceof Error ? error.message : String(error);
+    this.entries.push(entry);
+  }
+
+  /**
+   * Returns the recorded exchanges as an HTTP Archive.
+   *
+   * @returns The archive.
+   */
+  public toHar(): interfaces.HarLog {
+    return {
+      log: {
+        version: "1.2",
+        creator: { name: "playwright-ts-codebase", version: "1.0.0" },
+        entries: this.entries,
+      },
+    };
+  }
+
+  /**
+   * Writes the recorded exchanges to a HAR file, masking every secret known to the SecretRedactor.
+   *
+   * @param filePath - The path of the file, created with its directory if needed.
+   * @throws {Error} If the file cannot be written.
+   */
+  public async save(filePath: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      const har = JSON.stringify(
+        this.toHar(),
+        (key, value) => (typeof value === "string" ? SecretRedactor.redact(value) : value),
+        2
+      );
+      await fs.promises.writeFile(filePath, har, "utf8");
+      logger.info(`Recorded ${this.entries.length} API exchange(s) to ${filePath}`);
+    } catch (error) {
+      errorHandler.logGeneralError(error, "save", `Failed to save API exchanges to ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the recorded exchanges to the output directory of the test and attaches the file to
+   * the test result, so it is listed in the HTML and Ortoni reports. Nothing is attached if the
+   * test made no API requests.
+   *
+   * @param testInfo - The info of the running test.
+   * @returns The path of the HAR file, or undefined if nothing was recorded.
+   */
+  public async attach(testInfo: TestInfo): Promise<string | undefined> {
+    if (this.entries.length === 0) {
+      return undefined;
+    }
+    const filePath = testInfo.outputPath(appSettings.API_RECORDING.fileName);
+    await this.save(filePath);
+    await testInfo.attach("API exchanges", { path: filePath, contentType: "application/json" });
+    return filePath;
+  }
+
+  private createEntry(
+    request: interfaces.HttpRequestOptions,
+    metadata: interfaces.HttpRequestMetadata,
+    config?: InternalAxiosRequestConfig,
+    response?: interfaces.HttpResponse
+  ): interfaces.HarEntry {
+    const url = config?.url ?? RestHttpClient.buildUrl(request.url, request.query);
+    const requestHeaders = this.toNameValues(
+      config?.headers ? config.headers.toJSON() : request.headers ?? {}
+    );
+    const requestMimeType = this.findHeader(requestHeaders, "content-type") ?? "";
+    const requestBody = config ? config.data : request.body;
+    const responseHeaders = this.toNameValues(response?.headers ?? {});
+    const responseText = response ? this.toText(response.data) : undefined;
+
+    return {
+      startedDateTime: metadata.startedAt,
+      time: metadata.durationMs,
+      request: {
+        method: request.method,
+        url,
+        httpVersion: "HTTP/1.1",
+        headers: requestHeaders,
+        queryString: this.toQueryString(url),
+        ...(requestBody !== undefined && {
+          postData: { mimeType: requestMimeType, text: this.toText(requestBody) },
+        }),
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: response?.statusText ?? "",
+        httpVersion: "HTTP/1.1",
+        headers: responseHeaders,
+        content: {
+          size: responseText?.length ?? 0,
+          mimeType: this.findHeader(responseHeaders, "content-type") ?? "",
+          text: responseText,
+        },
+        redirectURL: metadata.url !== url ? metadata.url : "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: metadata.durationMs, receive: 0 },
+      _attempts: metadata.attempts,
+    };
+  }
+
+  private toNameValues(headers: Record<string, unknown>): interfaces.HarNameValue[] {
+    return Object.entries(headers)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .flatMap(([name, value]) =>
+        [value].flat().map((item) => ({
+          name,
+          value: RedactionInterceptor.isSensitiveHeader(name)
+            ? appSettings.LOG_REDACTION.mask
+            : String(item),
+        }))
+      );
+  }
+
+  private toQueryString(url: string): interfaces.HarNameValue[] {
+    const searchParams = new URL(url, "http://localhost").searchParams;
+    return [...searchParams].map(([name, value]) => ({
+      name,
+      value: RedactionInterceptor.isSensitiveField(name) ? appSettings.LOG_REDACTION.mask : value,
+    }));
+  }
+
+  private findHeader(headers: interfaces.HarNameValue[], name: string): string | undefined {
+    return headers.find((header) => header.name.toLowerCase() === name)?.value;
+  }
+
+  // Serializes a body with its sensitive JSON fields masked, truncated to the maximum length
+  private toText(body: unknown): string {
+    let value = body;
+    if (Buffer.isBuffer(value) || value instanceof ArrayBuffer) {
+      value = `[${Buffer.from(value as Buffer).length} bytes of binary data]`;
+    } else if (typeof value === "string") {
+      try {
+        value = JSON.parse(value);
+      } catch {
+        // not JSON, recorded as it is
+      }
+    }
+
+    const text =
+      typeof value === "string"
+        ? value
+        : JSON.stringify(RedactionInterceptor.redactValue(value)) ?? "";
+    const maxLength = appSettings.API_RECORDING.maxBodyLength;
+    return text.length > maxLength
+      ? `${text.slice(0, maxLength)}... [truncated ${text.length - maxLength} characters]`
+      : text;
+  }
+}
@@ -0,0 +1,117 @@
+import SecretRedactor from "../../utils/secretRedactor";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Keeps the credentials of API exchanges out of the logs and recordings. The values of the
+ * headers in API_INTERCEPTORS.redactHeaders and of the query parameters and JSON fields in
+ * API_INTERCEPTORS.redactFields, e.g. an access_token returned by a login endpoint, are
+ * registered with the SecretRedactor, so every later log line masks them as well.
+ */
+export default class RedactionInterceptor implements interfaces.HttpInterceptor {
+  public readonly name = "redaction";
+
+  /**
+   * Registers the credentials sent with the request.
+   *
+   * @param request - The request.
+   * @returns The request, unchanged.
+   */
+  public onRequest(request: interfaces.HttpRequestOptions): interfaces.HttpRequestOptions {
+    for (const [name, value] of Object.entries(request.headers ?? {})) {
+      if (RedactionInterceptor.isSensitiveHeader(name)) {
+        RedactionInterceptor.registerHeaderValue(value);
+      }
+    }
+    for (const [name, value] of Object.entries(request.query ?? {})) {
+      if (RedactionInterceptor.isSensitiveField(name)) {
+        [value].flat().forEach((item) => SecretRedactor.register(String(item ?? "")));
+      }
+    }
+    RedactionInterceptor.registerFields(request.body);
+    return request;
+  }
+
+  /**
+   * Registers the credentials returned in the response.
+   *
+   * @param response - The response.
+   * @returns The response, unchanged.
+   */
+  public onResponse(response: interfaces.HttpResponse): interfaces.HttpResponse {
+    for (const [name, value] of Object.entries(response.headers ?? {})) {
+      if (RedactionInterceptor.isSensitiveHeader(name)) {
+        [value].flat().forEach((item) => RedactionInterceptor.registerHeaderValue(String(item)));
+      }
+    }
+    RedactionInterceptor.registerFields(response.data);
+    return response;
+  }
+
+  /**
+   * Checks whether a header carries credentials.
+   *
+   * @param name - The name of the header, in any case.
+   * @returns True if the header is listed in API_INTERCEPTORS.redactHeaders.
+   */
+  public static isSensitiveHeader(name: string): boolean {
+    return appSettings.API_INTERCEPTORS.redactHeaders.includes(name.toLowerCase());
+  }
+
+  /**
+   * Checks whether a query parameter or JSON field carries credentials.
+   *
+   * @param name - The name of the parameter or field, in any case.
+   * @returns True if the name is listed in API_INTERCEPTORS.redactFields.
+   */
+  public static isSensitiveField(name: string): boolean {
+    return appSettings.API_INTERCEPTORS.redactFields.includes(name.toLowerCase());
+  }
+
+  /**
+   * Returns a copy of a value with the sensitive fields masked and every secret known to the
+   * SecretRedactor masked in its strings.
+   *
+   * @param value - The value to redact, e.g. a parsed JSON body.
+   * @returns The redacted copy.
+   */
+  public static redactValue(value: unknown): unknown {
+    if (typeof value === "string") {
+      return SecretRedactor.redact(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => RedactionInterceptor.redactValue(item));
+    }
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          RedactionInterceptor.isSensitiveField(key)
+            ? appSettings.LOG_REDACTION.mask
+            : RedactionInterceptor.redactValue(item),
+        ])
+      );
+    }
+    return value;
+  }
+
+  // Registers the whole value and, for "Bearer abc" or "session=abc; Path=/", the credential alone
+  private static registerHeaderValue(value: string): void {
+    SecretRedactor.register(value);
+    SecretRedactor.register(/^(?:[^=;\s]+=|\S+\s+)?([^;]*)/.exec(value)?.[1]);
+  }
+
+  private static registerFields(value: unknown): void {
+    if (Array.isArray(value)) {
+      value.forEach((item) => RedactionInterceptor.registerFields(item));
+    } else if (value && typeof value === "object" && !Buffer.isBuffer(value)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (RedactionInterceptor.isSensitiveField(key) && typeof item === "string") {
+          SecretRedactor.register(item);
+        } else {
+          RedactionInterceptor.registerFields(item);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import logger from "../../utils/loggerUtil";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+/**
+ * Logs the total duration of every exchange, including retries, and warns about exchanges
+ * slower than the threshold. The durations are kept, so a test can assert on them or report
+ * them.
+ */
+export default class TimingInterceptor implements interfaces.HttpInterceptor {
+  public readonly name = "timing";
+
+  public readonly timings: interfaces.HttpRequestMetadata[] = [];
+
+  /**
+   * @param slowRequestMs - The duration above which an exchange is logged as slow. Defaults to API_INTERCEPTORS.slowRequestMs in appSettings.json.
+   */
+  constructor(
+    private readonly slowRequestMs: number = appSettings.API_INTERCEPTORS.slowRequestMs
+  ) {}
+
+  /**
+   * Records and logs the duration of the exchange.
+   *
+   * @param response - The response.
+   * @returns The response, unchanged.
+   */
+  public onResponse(response: interfaces.HttpResponse): interfaces.HttpResponse {
+    this.record(response.metadata, String(response.status));
+    return response;
+  }
+
+  /**
+   * Records and logs the duration of an exchange that received no response.
+   *
+   * @param error - The error of the exchange.
+   * @param request - The request.
+   * @param metadata - The metadata of the exchange.
+   */
+  public onError(
+    error: unknown,
+    request: interfaces.HttpRequestOptions,
+    metadata: interfaces.HttpRequestMetadata
+  ): void {
+    this.record(metadata, "no response");
+  }
+
+  private record(metadata: interfaces.HttpRequestMetadata, outcome: string): void {
+    this.timings.push({ ...metadata });
+    const message = `[${metadata.method} Request] ${metadata.url}: ${outcome} after ${metadata.durationMs}ms and ${metadata.attempts} attempt(s)`;
+
+    if (metadata.durationMs > this.slowRequestMs) {
+      logger.warn(`${message}, slower than ${this.slowRequestMs}ms`);
+    } else {
+      logger.info(message);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { EnvSchema } from "../models/interfaces";
+
+/**
+ * Declarative schema of the environment variables read through ENV.
+ * Every variable declares whether it is required, how its value is parsed, an optional
+ * default and whether it must be stored encrypted in the environment file.
+ * The schema is validated in global setup before any test runs.
+ */
+const envSchema: EnvSchema = {
+  // Portal environment variables
+  PORTAL_URL: {
+    type: "url",
+    required: true,
+    description: "Base URL of the portal under test",
+  },
+  PORTAL_USERNAME: {
+    type: "string",
+    required: true,
+    encrypted: true,
+    description: "Username used to log in to the portal",
+  },
+  PORTAL_PASSWORD: {
+    type: "string",
+    required: true,
+    encrypted: true,
+    description: "Password used to log in to the portal",
+  },
+  PORTAL_TOTP_SECRET: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "Base32 TOTP secret of the portal account, for logins with MFA enabled",
+  },
+  SECRET_KEY_UAT: {
+    type: "string",
+    required: false,
+    description: "Secret key used to encrypt and decrypt the UAT environment file",
+  },
+
+  // API environment variables
+  API_URL: {
+    type: "url",
+    required: false,
+    description: "Base URL of the API under test",
+  },
+  API_AUTH_TYPE: {
+    type: "enum",
+    required: false,
+    values: ["bearer", "basic", "api-key", "oauth2-client-credentials", "azure"],
+    description: "Authentication of the API client created by AuthProviderFactory",
+  },
+  API_TOKEN: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "Static bearer token of the API",
+  },
+  API_USERNAME: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "Username for basic authentication with the API",
+  },
+  API_PASSWORD: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "Password for basic authentication with the API",
+  },
+  API_KEY: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "API key, sent as the header or query parameter set in API_AUTH.apiKey",
+  },
+  API_CLIENT_ID: {
+    type: "string",
+    required: false,
+    description: "OAuth2 client ID of the API client",
+  },
+  API_CLIENT_SECRET: {
+    type: "string",
+    required: false,
+    encrypted: true,
+    description: "OAuth2 client secret of the API client",
+  },
+  API_AUTH_URL: {
+    type: "url",
+    required: false,
+    description: "OAuth2 token endpoint of the API",
+  },
+  API_SCOPE: {
+    type: "string",
+    required: false,
+    description: "Scope requested with OAuth2 and Azure access tokens, e.g. api://my-api/.default",
+  },
+
+  // Database environment variables
+  SERVER: {
+    type: "string",
+    required: false,
+    description: "Database server host name",
+  },
+  DATABASE: {
+    type: "string",
+    required: false,
+    description: "Database name",
+  },
+  PORT: {
+    type: "int",
+    required: false,
+    default: "1433",
+    description: "Database server port",
+  },
+  AZURE_DB_ENDPOINT: {
+    type: "url",
+    required: false,
+    description: "Azure resource used to request the database access token",
+  },
+};
+
+export default envSchema;
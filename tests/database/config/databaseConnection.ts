@@ -1,8 +1,8 @@
 import sql from "mssql";
-import { DefaultAzureCredential } from "@azure/identity";
 import ENV from "../../utils/envVariables";
 import errorHandler from "../../helpers/errorHandler";
 import logger from "../../utils/loggerUtil";
+import AzureTokenUtil from "../../utils/azureTokenUtil";
 
 
 export default class DatabaseConnection {
@@ -19,14 +19,8 @@ export default class DatabaseConnection {
    * @throws Will throw an error if there is an issue retrieving the token.
    */
   private static async getAccessToken(): Promise<string> {
-    const credential = new DefaultAzureCredential();
     try {
-      const tokenResponse = await credential.getToken(ENV.AZURE_DB_ENDPOINT!);
-      // Validate token response (you could inject this if necessary)
-      if (!tokenResponse) {
-        throw new Error("Failed to retrieve token response");
-      }
-      logger.info(`Access token retrieved successfully.`);
+      const tokenResponse = await AzureTokenUtil.getAccessToken(ENV.AZURE_DB_ENDPOINT!);
       return tokenResponse.token;
     } catch (error) {
       errorHandler.logDatabaseError(error, "getAccessToken");
@@ -46,7 +40,7 @@ export default class DatabaseConnection {
     try {
       return {
         server: ENV.SERVER!,
-        port: parseInt(ENV.PORT!, 10),
+        port: ENV.PORT!,
         database: ENV.DATABASE!,
         options: {
           encrypt: true,
@@ -1,6 +1,9 @@
 import EnvironmentManager from "../helpers/environmentManager";
+import CryptoManager from "../helpers/cryptoManager";
+import KeyProviderFactory from "./keyProviders/keyProviderFactory";
 import errorHandler from "../helpers/errorHandler";
 import logger from "../utils/loggerUtil";
+import * as interfaces from "../models/interfaces";
 
 export default class EncryptionManager {
     
@@ -8,14 +11,19 @@ export default class EncryptionManager {
   private static envManager = new EnvironmentManager();
 
   /**
-   * Generates a cryptographically secure random secret key and stores it in the .env file
-   * under the given key name.
+   * Generates a cryptographically secure random secret key and stores it under the given
+   * key name in the given key provider, by default the configured one (see KEY_PROVIDER in
+   * appSettings.json), which is the .env file unless another provider is configured.
    *
-   * @param keyName - The name of the key to store in the environment file.
-   * @returns The generated secret key as a base64 string or undefined if an error occurs.
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param provider - The key provider to store the key in. Defaults to the configured provider.
+   * @returns The generated secret key as a base64 string.
    * @throws {Error} If an error occurs during key generation or storage.
    */
-  public static generateAndStoreKey(keyName: string): string | undefined {
+  public static async generateAndStoreKey(
+    keyName: string,
+    provider: interfaces.KeyProvider = KeyProviderFactory.getProvider()
+  ): Promise<string> {
     try {
       // Generate the secret key
       const secretKey = this.envManager.generateSecretKey();
@@ -25,8 +33,9 @@ export default class EncryptionManager {
         throw new Error("Failed to generate secret key");
       }
 
-      // Store the generated secret key in the .env file
-      this.envManager.storeKeyInEnv(keyName, secretKey);
+      // Store the generated secret key in the key provider
+      await provider.storeKey(keyName, secretKey);
+      logger.info(`Stored ${keyName} in the ${provider.type} key provider`);
 
       return secretKey;
     } catch (error) {
@@ -40,20 +49,31 @@ export default class EncryptionManager {
   }
 
   /**
-   * Encrypts environment variables for the given environment using the AES-256-CBC encryption
-   * algorithm with the given secret key.
+   * Encrypts environment variables for the given environment using the AES-256-GCM encryption
+   * algorithm with the given secret key. Values that are already encrypted are not encrypted
+   * again, so this can safely be run more than once on the same file.
+   *
+   * Only secret keys are encrypted. They are selected by the ENCRYPTION_RULES patterns in
+   * appSettings.json (per environment, falling back to the default rules), or by the given
+   * options, plus the keys declared as encrypted in the environment schema.
    *
    * @param env - The name of the environment to encrypt.
    * @param secretKey - The secret key used to derive the encryption key.
+   * @param options - Optional include/exclude key patterns that override the configured rules.
+   * @returns A summary of the keys that were encrypted, ignored, skipped and rejected.
    * @throws {Error} If an error occurs during encryption.
    */
-  public static encryptEnvironmentVariables(env: string, secretKey: string) {
+  public static encryptEnvironmentVariables(
+    env: string,
+    secretKey: string,
+    options?: interfaces.EncryptionOptions
+  ): interfaces.EncryptionSummary {
     try {
       // initialize encryption
-      this.envManager.initializeEncryption(env, secretKey);
+      this.envManager.initializeEncryption(env, secretKey, options);
 
       // encrypt environment variables
-      this.envManager.encryptEnvVariables();
+      return this.envManager.encryptEnvVariables();
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -63,4 +83,295 @@ export default class EncryptionManager {
       throw error;
     }
   }
+
+  /**
+   * Rotates the secret key of the given environment. Every encrypted value is decrypted
+   * with the current secret key and re-encrypted under a newly generated key, which is
+   * stored under the given key name in the given key provider, by default the configured one
+   * (see KEY_PROVIDER in appSettings.json), the same way generateAndStoreKey stores new keys.
+   * A backup of the environment file is kept, and it is restored if the key cannot be stored.
+   *
+   * @param env - The name of the environment file to rotate.
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param secretKey - The current secret key used to decrypt the values.
+   * @param provider - The key provider to store the new key in. Defaults to the configured provider.
+   * @returns The newly generated secret key.
+   * @throws {Error} If an error occurs during rotation.
+   */
+  public static async rotateSecretKey(
+    env: string,
+    keyName: string,
+    secretKey: string,
+    provider: interfaces.KeyProvider = KeyProviderFactory.getProvider()
+  ): Promise<string> {
+    try {
+      const newSecretKey = await this.envManager.rotateSecretKey(
+        env,
+        keyName,
+        secretKey,
+        provider
+      );
+
+      // keep the running process in sync with the new key
+      process.env[keyName] = newSecretKey;
+      logger.info(`Stored ${keyName} in the ${provider.type} key provider`);
+
+      return newSecretKey;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "rotateSecretKey",
+        "Failed to rotate secret key"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Converts the given environment file to envelope encryption: its values are re-encrypted
+   * under a random data key, which is wrapped under the given secret key for the first recipient.
+   * Every recipient then decrypts the file with their own secret key.
+   *
+   * @param env - The name of the environment file.
+   * @param secretKey - The current secret key of the file, which becomes the key of the first recipient.
+   * @param recipientId - The name of the first recipient, e.g. "jane" or "ci".
+   * @returns The number of values that were re-encrypted.
+   * @throws {Error} If the file already uses envelope encryption or cannot be converted.
+   */
+  public static enableEnvelopeEncryption(
+    env: string,
+    secretKey: string,
+    recipientId: string
+  ): number {
+    try {
+      return this.envManager.enableEnvelopeEncryption(env, secretKey, recipientId);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "enableEnvelopeEncryption",
+        "Failed to enable envelope encryption"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Gives a new recipient access to the given environment file by wrapping its data key under
+   * the recipient's secret key. The encrypted values are not changed.
+   *
+   * @param env - The name of the environment file.
+   * @param secretKey - The secret key of an existing recipient.
+   * @param recipientId - The name of the new recipient.
+   * @param recipientKey - The secret key of the new recipient.
+   * @throws {Error} If the file does not use envelope encryption or the secret key is not a recipient.
+   */
+  public static addRecipient(
+    env: string,
+    secretKey: string,
+    recipientId: string,
+    recipientKey: string
+  ): void {
+    try {
+      this.envManager.addRecipient(env, secretKey, recipientId, recipientKey);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "addRecipient",
+        "Failed to add recipient"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a recipient from the given environment file. With a rotation the data key is also
+   * replaced, so the removed recipient can no longer decrypt the file; without one they keep
+   * access through any copy of the data key they unwrapped before.
+   *
+   * @param env - The name of the environment file.
+   * @param recipientId - The name of the recipient to remove.
+   * @param rotation - The secret keys used to rotate the data key for the remaining recipients.
+   * @returns The number of values that were re-encrypted under a new data key.
+   * @throws {Error} If the recipient does not exist, is the last recipient or a key is missing.
+   */
+  public static removeRecipient(
+    env: string,
+    recipientId: string,
+    rotation?: interfaces.DataKeyRotation
+  ): number {
+    try {
+      return this.envManager.removeRecipient(env, recipientId, rotation);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "removeRecipient",
+        "Failed to remove recipient"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Rotates the data key of the given environment file and wraps the new key for every recipient.
+   *
+   * @param env - The name of the environment file.
+   * @param rotation - The secret key of a recipient and the secret keys of the other recipients.
+   * @returns The number of values that were re-encrypted.
+   * @throws {Error} If the file does not use envelope encryption or a recipient's key is missing.
+   */
+  public static rotateDataKey(
+    env: string,
+    rotation: interfaces.DataKeyRotation
+  ): number {
+    try {
+      return this.envManager.rotateDataKey(env, rotation);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "rotateDataKey",
+        "Failed to rotate data key"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the names of the recipients of the given environment file.
+   *
+   * @param env - The name of the environment file.
+   * @returns The names of the recipients.
+   * @throws {Error} If the file does not use envelope encryption.
+   */
+  public static listRecipients(env: string): string[] {
+    try {
+      return this.envManager.listRecipients(env);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "listRecipients",
+        "Failed to list recipients"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts the value of a single key from the given environment file.
+   * Every reveal is recorded in the audit log, without the value.
+   *
+   * @param env - The name of the environment file.
+   * @param keyName - The name of the key to reveal.
+   * @param secretKey - The secret key used to decrypt the value.
+   * @returns The decrypted value.
+   * @throws {Error} If the key does not exist or cannot be decrypted.
+   */
+  public static revealKey(
+    env: string,
+    keyName: string,
+    secretKey: string
+  ): string {
+    try {
+      return this.envManager.revealValue(env, keyName, secretKey);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "revealKey",
+        "Failed to reveal environment variable"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts the environment file, or only the given keys, into a temporary plaintext copy
+   * readable only by the current user. The export is recorded in the audit log, without the values.
+   *
+   * @param env - The name of the environment file.
+   * @param secretKey - The secret key used to decrypt the values.
+   * @param keyNames - The keys to export. Defaults to the whole file.
+   * @returns The path of the temporary plaintext copy.
+   * @throws {Error} If a key does not exist or the file cannot be decrypted or written.
+   */
+  public static exportDecryptedEnvironment(
+    env: string,
+    secretKey: string,
+    keyNames?: string[]
+  ): string {
+    try {
+      return this.envManager.exportDecryptedFile(env, secretKey, keyNames);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "exportDecryptedEnvironment",
+        "Failed to export decrypted environment file"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Encrypts a file, such as storage state, a client certificate or a test data file,
+   * into an encrypted ".enc" file that can safely be committed.
+   *
+   * @param inputPath - The path of the file to encrypt.
+   * @param secretKey - The secret key used to derive the encryption key.
+   * @param outputPath - The path of the encrypted file. Defaults to the input path with ".enc" appended.
+   * @returns The path of the encrypted file.
+   * @throws {Error} If the file cannot be encrypted.
+   */
+  public static async encryptArtifact(
+    inputPath: string,
+    secretKey: string,
+    outputPath?: string
+  ): Promise<string> {
+    try {
+      const encryptedPath = await CryptoManager.encryptFile(
+        inputPath,
+        secretKey,
+        outputPath
+      );
+      logger.info(`Encrypted ${inputPath} to ${encryptedPath}`);
+      return encryptedPath;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "encryptArtifact",
+        "Failed to encrypt artifact"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compares the environment files of the given environments, prints the differences as a
+   * table and writes them as a JSON report. Decrypted values are only compared when secret
+   * keys are supplied, and only whether they differ is reported.
+   *
+   * @param environments - The names of the environments to compare.
+   * @param reportPath - The path of the JSON report.
+   * @param secretKeys - Optional secret keys by environment name, used to compare decrypted values.
+   * @returns The drift report.
+   * @throws {Error} If the files cannot be compared or the report cannot be written.
+   */
+  public static reportEnvironmentDrift(
+    environments: string[],
+    reportPath: string,
+    secretKeys?: Record<string, string>
+  ): interfaces.EnvDriftReport {
+    try {
+      const report = this.envManager.compareEnvironments(
+        environments,
+        secretKeys
+      );
+      this.envManager.writeDriftReport(report, reportPath);
+      return report;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "reportEnvironmentDrift",
+        "Failed to report environment drift"
+      );
+      throw error;
+    }
+  }
 }
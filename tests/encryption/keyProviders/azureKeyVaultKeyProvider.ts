@@ -0,0 +1,113 @@
+import axios from "axios";
+import { TokenCredential } from "@azure/identity";
+import errorHandler from "../../helpers/errorHandler";
+import logger from "../../utils/loggerUtil";
+import AzureTokenUtil from "../../utils/azureTokenUtil";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Reads and stores secret keys as Azure Key Vault secrets through the Key Vault REST API,
+ * authenticated with the same DefaultAzureCredential the database connection uses.
+ * Key Vault secret names cannot contain underscores, so SECRET_KEY_UAT is stored as SECRET-KEY-UAT.
+ */
+export default class AzureKeyVaultKeyProvider implements interfaces.KeyProvider {
+  public readonly type = "azure-key-vault";
+
+  private static readonly API_VERSION = "7.4";
+  private static readonly TOKEN_SCOPE = "https://vault.azure.net/.default";
+
+  private readonly vaultUrl: string;
+
+  /**
+   * @param vaultUrl - The URL of the key vault, e.g. https://my-vault.vault.azure.net.
+   * @param credential - The credential used to get access tokens. Defaults to DefaultAzureCredential.
+   */
+  constructor(
+    vaultUrl: string,
+    private readonly credential: TokenCredential = AzureTokenUtil.getDefaultCredential()
+  ) {
+    if (!vaultUrl) {
+      errorHandler.logAndThrowError(
+        "A vault URL is required for the Azure Key Vault key provider. Set KEY_VAULT_URL or KEY_PROVIDER.azureKeyVault.vaultUrl in appSettings.json."
+      );
+    }
+    this.vaultUrl = vaultUrl.replace(/\/+$/, "");
+  }
+
+  /**
+   * Returns the secret key from the key vault.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @returns The secret key, or undefined if the secret does not exist.
+   * @throws {Error} If the access token cannot be retrieved or the request fails.
+   */
+  public async getKey(keyName: string): Promise<string | undefined> {
+    try {
+      const response = await axios.get<{ value?: string }>(
+        this.getSecretUrl(keyName),
+        {
+          headers: await this.getAuthorizationHeaders(),
+          validateStatus: (status) => status === 200 || status === 404,
+        }
+      );
+      return response.status === 404 ? undefined : response.data.value || undefined;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "getKey",
+        `Failed to read ${keyName} from key vault ${this.vaultUrl}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the secret key in the key vault as a new version of the secret.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param secretKey - The secret key to store.
+   * @throws {Error} If the access token cannot be retrieved or the request fails.
+   */
+  public async storeKey(keyName: string, secretKey: string): Promise<void> {
+    try {
+      await axios.put(
+        this.getSecretUrl(keyName),
+        { value: secretKey },
+        { headers: await this.getAuthorizationHeaders() }
+      );
+      logger.info(`Stored ${keyName} in key vault ${this.vaultUrl}`);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "storeKey",
+        `Failed to store ${keyName} in key vault ${this.vaultUrl}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Converts the name of a secret key to a Key Vault secret name, e.g. SECRET_KEY_UAT to SECRET-KEY-UAT.
+   *
+   * @param keyName - The name of the secret key.
+   * @returns The name of the Key Vault secret.
+   */
+  public static toSecretName(keyName: string): string {
+    return keyName.replace(/_/g, "-");
+  }
+
+  private getSecretUrl(keyName: string): string {
+    const secretName = encodeURIComponent(
+      AzureKeyVaultKeyProvider.toSecretName(keyName)
+    );
+    return `${this.vaultUrl}/secrets/${secretName}?api-version=${AzureKeyVaultKeyProvider.API_VERSION}`;
+  }
+
+  private async getAuthorizationHeaders(): Promise<Record<string, string>> {
+    const tokenResponse = await AzureTokenUtil.getAccessToken(
+      AzureKeyVaultKeyProvider.TOKEN_SCOPE,
+      this.credential
+    );
+    return { Authorization: `Bearer ${tokenResponse.token}` };
+  }
+}
@@ -0,0 +1,92 @@
+import { execSync } from "child_process";
+import errorHandler from "../../helpers/errorHandler";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Reads secret keys from a command that prints the key, e.g. a password manager or the
+ * OS keyring (`secret-tool lookup name {keyName}`, `security find-generic-password -w -s {keyName}`).
+ * The "{keyName}" placeholder is replaced with the name of the secret key. An optional store
+ * command receives the key on stdin; without it the provider is read-only.
+ */
+export default class CommandKeyProvider implements interfaces.KeyProvider {
+  public readonly type = "command";
+
+  // Key names are substituted into a shell command, so only plain names are allowed
+  private static readonly KEY_NAME_REGEX = /^[A-Za-z0-9_-]+$/;
+  private static readonly KEY_NAME_PLACEHOLDER = /\{keyName\}/g;
+
+  /**
+   * @param getCommand - The command that prints the secret key.
+   * @param storeCommand - The command that stores the secret key read from stdin. Optional
+   */
+  constructor(
+    private readonly getCommand: string,
+    private readonly storeCommand?: string
+  ) {
+    if (!getCommand) {
+      errorHandler.logAndThrowError(
+        "A command is required for the command key provider. Set KEY_COMMAND or KEY_PROVIDER.command.get in appSettings.json."
+      );
+    }
+  }
+
+  /**
+   * Runs the get command and returns what it prints, without surrounding whitespace.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @returns The secret key, or undefined if the command prints nothing.
+   * @throws {Error} If the key name is invalid or the command fails.
+   */
+  public async getKey(keyName: string): Promise<string | undefined> {
+    try {
+      const output = execSync(this.buildCommand(this.getCommand, keyName), {
+        encoding: "utf8",
+        stdio: ["ignore", "pipe", "pipe"],
+      });
+      return output.trim() || undefined;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "getKey",
+        `Failed to read ${keyName} from the key command`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Runs the store command with the secret key on stdin.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param secretKey - The secret key to store.
+   * @throws {Error} If no store command is configured, the key name is invalid or the command fails.
+   */
+  public async storeKey(keyName: string, secretKey: string): Promise<void> {
+    try {
+      if (!this.storeCommand) {
+        errorHandler.logAndThrowError(
+          "The command key provider is read-only. Set KEY_STORE_COMMAND or KEY_PROVIDER.command.store in appSettings.json to store keys."
+        );
+      }
+
+      execSync(this.buildCommand(this.storeCommand, keyName), {
+        input: secretKey,
+        stdio: ["pipe", "ignore", "pipe"],
+      });
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "storeKey",
+        `Failed to store ${keyName} with the key command`
+      );
+      throw error;
+    }
+  }
+
+  private buildCommand(template: string, keyName: string): string {
+    if (!CommandKeyProvider.KEY_NAME_REGEX.test(keyName)) {
+      errorHandler.logAndThrowError(`Invalid secret key name: ${keyName}`);
+    }
+    return template.replace(CommandKeyProvider.KEY_NAME_PLACEHOLDER, keyName);
+  }
+}
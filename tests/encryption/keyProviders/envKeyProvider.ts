@@ -0,0 +1,42 @@
+import EnvironmentManager from "../../helpers/environmentManager";
+import errorHandler from "../../helpers/errorHandler";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Reads secret keys from process.env and stores them in the base .env file,
+ * which is how the keys were managed before key providers existed.
+ */
+export default class EnvKeyProvider implements interfaces.KeyProvider {
+  public readonly type = "env";
+
+  /**
+   * Returns the secret key from process.env.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @returns The secret key, or undefined if it is not set.
+   */
+  public async getKey(keyName: string): Promise<string | undefined> {
+    return process.env[keyName] || undefined;
+  }
+
+  /**
+   * Stores the secret key in the base .env file and in process.env.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param secretKey - The secret key to store.
+   * @throws {Error} If the .env file cannot be written.
+   */
+  public async storeKey(keyName: string, secretKey: string): Promise<void> {
+    try {
+      new EnvironmentManager().storeKeyInEnv(keyName, secretKey);
+      process.env[keyName] = secretKey;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "storeKey",
+        `Failed to store ${keyName} in the .env file`
+      );
+      throw error;
+    }
+  }
+}
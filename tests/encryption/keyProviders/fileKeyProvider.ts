@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import EnvFileParser from "../../utils/envFileParser";
+import errorHandler from "../../helpers/errorHandler";
+import logger from "../../utils/loggerUtil";
+import * as interfaces from "../../models/interfaces";
+
+/**
+ * Reads and stores secret keys in a key file in the .env format kept outside the
+ * repository, e.g. in the home directory, so the keys never end up next to the
+ * encrypted files they protect.
+ */
+export default class FileKeyProvider implements interfaces.KeyProvider {
+  public readonly type = "file";
+
+  private readonly keyFilePath: string;
+
+  /**
+   * @param keyFilePath - The path of the key file, a leading "~" is the home directory.
+   */
+  constructor(keyFilePath: string) {
+    this.keyFilePath = path.resolve(keyFilePath.replace(/^~(?=$|[\\/])/, os.homedir()));
+
+    if (!path.relative(process.cwd(), this.keyFilePath).startsWith("..")) {
+      logger.warn(
+        `Key file ${this.keyFilePath} is inside the repository. Move it outside the repository so the keys cannot be committed.`
+      );
+    }
+  }
+
+  /**
+   * Returns the secret key from the key file.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @returns The secret key, or undefined if the key file or the key does not exist.
+   * @throws {Error} If the key file cannot be read.
+   */
+  public async getKey(keyName: string): Promise<string | undefined> {
+    try {
+      if (!fs.existsSync(this.keyFilePath)) {
+        return undefined;
+      }
+
+      const lines = EnvFileParser.parse(fs.readFileSync(this.keyFilePath, "utf8"));
+      return EnvFileParser.getValue(lines, keyName) || undefined;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "getKey",
+        `Failed to read ${keyName} from key file ${this.keyFilePath}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the secret key in the key file, creating the file and its directory if needed.
+   * The file is readable and writable only by the current user.
+   *
+   * @param keyName - The name of the secret key, e.g. SECRET_KEY_UAT.
+   * @param secretKey - The secret key to store.
+   * @throws {Error} If the key file cannot be written.
+   */
+  public async storeKey(keyName: string, secretKey: string): Promise<void> {
+    try {
+      fs.mkdirSync(path.dirname(this.keyFilePath), { recursive: true, mode: 0o700 });
+
+      const content = fs.existsSync(this.keyFilePath)
+        ? fs.readFileSync(this.keyFilePath, "utf8")
+        : "";
+      const lines = EnvFileParser.setValue(EnvFileParser.parse(content), keyName, secretKey);
+
+      fs.writeFileSync(this.keyFilePath, EnvFileParser.serialize(lines), { mode: 0o600 });
+      fs.chmodSync(this.keyFilePath, 0o600);
+      logger.info(`Stored ${keyName} in key file ${this.keyFilePath}`);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "storeKey",
+        `Failed to store ${keyName} in key file ${this.keyFilePath}`
+      );
+      throw error;
+    }
+  }
+}
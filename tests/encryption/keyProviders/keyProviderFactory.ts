@@ -0,0 +1,54 @@
+import EnvKeyProvider from "./envKeyProvider";
+import FileKeyProvider from "./fileKeyProvider";
+import CommandKeyProvider from "./commandKeyProvider";
+import AzureKeyVaultKeyProvider from "./azureKeyVaultKeyProvider";
+import errorHandler from "../../helpers/errorHandler";
+import * as interfaces from "../../models/interfaces";
+import * as appSettings from "../../config/appSettings.json";
+
+export default class KeyProviderFactory {
+  /**
+   * Creates the key provider that secret keys are read from and stored in. The provider is
+   * selected by the KEY_PROVIDER variable, or KEY_PROVIDER.type in appSettings.json, and
+   * configured from KEY_PROVIDER in appSettings.json. The settings can be overridden with the
+   * KEY_FILE_PATH, KEY_COMMAND, KEY_STORE_COMMAND and KEY_VAULT_URL variables.
+   *
+   * @param type - The type of the provider. Defaults to the configured provider.
+   * @returns The key provider.
+   * @throws {Error} If the type is unknown or the provider is not configured.
+   */
+  public static getProvider(
+    type: string = KeyProviderFactory.getConfiguredType()
+  ): interfaces.KeyProvider {
+    const settings = appSettings.KEY_PROVIDER;
+
+    switch (type) {
+      case "env":
+        return new EnvKeyProvider();
+      case "file":
+        return new FileKeyProvider(process.env.KEY_FILE_PATH || settings.file.path);
+      case "command":
+        return new CommandKeyProvider(
+          process.env.KEY_COMMAND || settings.command.get,
+          process.env.KEY_STORE_COMMAND || settings.command.store || undefined
+        );
+      case "azure-key-vault":
+        return new AzureKeyVaultKeyProvider(
+          process.env.KEY_VAULT_URL || settings.azureKeyVault.vaultUrl
+        );
+      default:
+        return errorHandler.logAndThrowError(
+          `Unknown key provider: ${type}. Expected one of: env, file, command, azure-key-vault`
+        );
+    }
+  }
+
+  /**
+   * Returns the type of the configured key provider.
+   *
+   * @returns The KEY_PROVIDER variable if set, otherwise KEY_PROVIDER.type in appSettings.json.
+   */
+  public static getConfiguredType(): string {
+    return process.env.KEY_PROVIDER || appSettings.KEY_PROVIDER.type;
+  }
+}
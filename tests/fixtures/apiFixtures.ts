@@ -0,0 +1,37 @@
+import { test as base } from "@playwright/test";
+import RestHttpClient from "../apiTests/core/restHttpClient";
+import AuthProviderFactory from "../apiTests/authProviders/authProviderFactory";
+import CorrelationIdInterceptor from "../apiTests/interceptors/correlationIdInterceptor";
+import TimingInterceptor from "../apiTests/interceptors/timingInterceptor";
+import RedactionInterceptor from "../apiTests/interceptors/redactionInterceptor";
+import HttpRecorder from "../apiTests/interceptors/httpRecorder";
+
+type ApiFixtures = {
+  apiRecorder: HttpRecorder;
+  apiClient: RestHttpClient;
+};
+
+/**
+ * Fixtures of API tests. Import test and expect from this file instead of @playwright/test to
+ * get an apiClient authenticated with the provider selected by API_AUTH_TYPE, which adds
+ * correlation IDs, logs timings, masks credentials and records every exchange. The recording
+ * is attached to the test result as a HAR file after each test.
+ */
+export const test = base.extend<ApiFixtures>({
+  apiRecorder: async ({}, use, testInfo) => {
+    const recorder = new HttpRecorder();
+    await use(recorder);
+    await recorder.attach(testInfo);
+  },
+
+  apiClient: async ({ apiRecorder }, use) => {
+    const client = new RestHttpClient(undefined, AuthProviderFactory.getProvider())
+      .use(new CorrelationIdInterceptor())
+      .use(new TimingInterceptor())
+      .use(new RedactionInterceptor())
+      .use(apiRecorder);
+    await use(client);
+  },
+});
+
+export { expect } from "@playwright/test";
@@ -0,0 +1,115 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import CryptoManager from "./cryptoManager";
+import errorHandler from "./errorHandler";
+import logger from "../utils/loggerUtil";
+import * as interfaces from "../models/interfaces";
+import * as appSettings from "../config/appSettings.json";
+
+export default class ArtifactManager {
+  // Variable holding the directory of the decrypted artifacts, inherited by the test workers
+  public static readonly ARTIFACTS_DIR_VARIABLE = "DECRYPTED_ARTIFACTS_DIR";
+
+  /**
+   * Decrypts every artifact listed under ENCRYPTED_ARTIFACTS in appSettings.json into a new
+   * temporary directory, readable only by the current user. The directory is published in the
+   * DECRYPTED_ARTIFACTS_DIR variable, and the path of each artifact in its own variable if one
+   * is configured (e.g. STORAGE_STATE_PATH), so tests can find the decrypted copies.
+   *
+   * @param secretKey - The secret key used to decrypt the artifacts.
+   * @param artifacts - The artifacts to decrypt. Defaults to ENCRYPTED_ARTIFACTS.
+   * @returns The temporary directory, or undefined if no artifacts are configured.
+   * @throws {Error} If an artifact is missing or cannot be decrypted.
+   */
+  public static async decryptArtifacts(
+    secretKey: string | undefined,
+    artifacts = appSettings.ENCRYPTED_ARTIFACTS as interfaces.EncryptedArtifact[]
+  ): Promise<string | undefined> {
+    if (artifacts.length === 0) {
+      return undefined;
+    }
+
+    let artifactsDir: string | undefined;
+    try {
+      if (!secretKey) {
+        errorHandler.logAndThrowError(
+          `A secret key is required to decrypt ${artifacts.length} encrypted artifact(s).`
+        );
+      }
+
+      artifactsDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+      for (const artifact of artifacts) {
+        const sourcePath = path.resolve(process.cwd(), artifact.source);
+        if (!fs.existsSync(sourcePath)) {
+          errorHandler.logAndThrowError(
+            `Encrypted artifact not found: ${artifact.source}`
+          );
+        }
+
+        const targetPath = await CryptoManager.decryptFile(
+          sourcePath,
+          secretKey,
+          path.join(artifactsDir, artifact.name)
+        );
+        if (artifact.envVar) {
+          process.env[artifact.envVar] = targetPath;
+        }
+      }
+
+      process.env[ArtifactManager.ARTIFACTS_DIR_VARIABLE] = artifactsDir;
+      logger.info(
+        `Decrypted ${artifacts.length} artifact(s) into ${artifactsDir}`
+      );
+      return artifactsDir;
+    } catch (error) {
+      ArtifactManager.removeDecryptedArtifacts(artifactsDir);
+      errorHandler.logGeneralError(
+        error,
+        "decryptArtifacts",
+        "Failed to decrypt artifacts"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the temporary directory of the decrypted artifacts.
+   *
+   * @param artifactsDir - The directory returned by `decryptArtifacts`.
+   */
+  public static removeDecryptedArtifacts(
+    artifactsDir: string | undefined
+  ): void {
+    try {
+      if (artifactsDir) {
+        fs.rmSync(artifactsDir, { recursive: true, force: true });
+        logger.info(`Removed decrypted artifacts from ${artifactsDir}`);
+      }
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "removeDecryptedArtifacts",
+        "Failed to remove decrypted artifacts"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the path of a decrypted artifact during the test run.
+   *
+   * @param name - The name of the artifact as configured in ENCRYPTED_ARTIFACTS.
+   * @returns The path of the decrypted copy.
+   * @throws {Error} If the artifacts were not decrypted in the global setup.
+   */
+  public static getArtifactPath(name: string): string {
+    const artifactsDir = process.env[ArtifactManager.ARTIFACTS_DIR_VARIABLE];
+    if (!artifactsDir) {
+      return errorHandler.logAndThrowError(
+        `Artifact '${name}' is not available. Add it to ENCRYPTED_ARTIFACTS in appSettings.json.`
+      );
+    }
+    return path.join(artifactsDir, name);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Base class of the errors thrown when an encrypted value cannot be decrypted,
+ * so callers can catch every crypto failure or only a specific one.
+ */
+export class CryptoError extends Error {
+  /**
+   * Constructs a CryptoError object
+   * @param message - The error message
+   * @param details - Additional information about the error, never the secret or the plaintext. Optional
+   */
+  constructor(message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = "CryptoError";
+  }
+}
+
+/**
+ * The MAC does not match: the value was tampered with after it was encrypted,
+ * or, for values without a key check value, it was encrypted under another key.
+ */
+export class MacVerificationError extends CryptoError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+    this.name = "MacVerificationError";
+  }
+}
+
+/**
+ * The value is not valid encrypted data: it is empty, not JSON, misses
+ * required properties or its ciphertext cannot be decrypted.
+ */
+export class MalformedCiphertextError extends CryptoError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+    this.name = "MalformedCiphertextError";
+  }
+}
+
+/**
+ * The key check value of the value does not match the secret key: the value
+ * was encrypted under another key, e.g. the key of another environment.
+ */
+export class KeyMismatchError extends CryptoError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+    this.name = "KeyMismatchError";
+  }
+}
+
+/**
+ * The value was written in a format this code cannot read: an unknown
+ * envelope version, algorithm or key derivation function.
+ */
+export class UnsupportedVersionError extends CryptoError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(message, details);
+    this.name = "UnsupportedVersionError";
+  }
+}
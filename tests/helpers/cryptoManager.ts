@@ -1,43 +1,105 @@
 import CryptoJS from "crypto-js";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
 import CryptoUtil from "../utils/cryptoUtil";
 import errorHandler from "./errorHandler";
 import * as interfaces from "../models/interfaces";
+import * as appSettings from "../config/appSettings.json";
+import KeyDerivationUtil from "../utils/keyDerivationUtil";
+import { CipherAlgorithm, FileEncoding } from "../models/utilityEnums";
+import {
+  CryptoError,
+  KeyMismatchError,
+  MacVerificationError,
+  MalformedCiphertextError,
+  UnsupportedVersionError,
+} from "./cryptoErrorTypes";
 
 export default class CryptoManager extends CryptoUtil{
 
-      /**
-   * Encrypts the given value using the AES-256-CBC encryption algorithm
+  // Version of the envelope written by encrypt, values without a version are version 0
+  private static readonly ENVELOPE_VERSION = 2;
+
+  // Version 1 envelopes store the PBKDF2-SHA256 iteration count instead of kdfParams
+  private static readonly ITERATIONS_ENVELOPE_VERSION = 1;
+
+  public static readonly ENCRYPTED_FILE_EXTENSION = ".enc";
+  private static readonly AUTH_TAG_LENGTH = 16; // bytes appended after the encrypted content
+  private static readonly MAX_FILE_HEADER_LENGTH = 4096; // bytes
+
+  private static readonly SUPPORTED_VERSIONS = [
+    0,
+    CryptoManager.ITERATIONS_ENVELOPE_VERSION,
+    CryptoManager.ENVELOPE_VERSION,
+  ];
+
+  /**
+   * Encrypts the given value using the AES-256-GCM encryption algorithm
    * with a randomly generated salt and initialization vector.
    *
+   * The result is a versioned envelope recording the algorithm, key derivation function and
+   * its parameters, so every value is always decrypted with the parameters it was created with,
+   * even after KEY_DERIVATION in appSettings.json changes. Separate encryption and MAC keys are
+   * derived from the secret key, and the MAC covers the header and the authentication tag.
+   * A key check value is stored as well, so a wrong key can be told apart from tampering.
+   *
    * @param value - The value to encrypt.
-   * @param secretKey - The secret key used to derive the encryption key.
-   * @returns An object containing the encrypted value, salt, initialization
-   * vector, and message authentication code.
+   * @param secretKey - The secret key used to derive the encryption and MAC keys.
+   * @returns The envelope containing the encrypted value, salt, initialization
+   * vector, authentication tag and message authentication code.
    * @throws {Error} If an error occurs during encryption.
    */
   public static encrypt(
     value: string,
     secretKey: string
-  ): interfaces.EncryptionParams {
+  ): interfaces.EncryptionEnvelope {
     try {
       // Generate a random salt and IV
       const salt = this.generateSalt();
-      const iv = this.generateIvAsBase64();
+      const iv = this.generateIvAsBuffer(
+        appSettings.PARAMETER_LENGTHS.GCM_IV_LENGTH
+      );
+      const kdf = KeyDerivationUtil.getDefaultFunction();
+      const header = {
+        v: this.ENVELOPE_VERSION,
+        alg: CipherAlgorithm.AES_256_GCM,
+        kdf,
+        kdfParams: KeyDerivationUtil.getDefaultParams(kdf),
+      };
 
-      // Derive a key from the secret key and salt
-      const key = this.deriveKey(secretKey, salt);
+      // Derive the encryption and MAC keys from the secret key and salt
+      const { encryptionKey, macKey } = this.deriveKeys(
+        secretKey,
+        salt,
+        header.kdf,
+        header.kdfParams
+      );
 
-      // Encrypt the value
-      const cipherText = CryptoJS.AES.encrypt(value, key, {
-        iv: CryptoJS.enc.Base64.parse(iv),
-        mode: CryptoJS.mode.CBC,
-        padding: CryptoJS.pad.Pkcs7,
-      }).toString();
+      // Encrypt the value, authenticating the header as additional data
+      const cipher = crypto.createCipheriv(header.alg, encryptionKey, iv);
+      cipher.setAAD(Buffer.from(this.getEnvelopeHeader(header), FileEncoding.UTF8));
+      const cipherText = Buffer.concat([
+        cipher.update(value, FileEncoding.UTF8),
+        cipher.final(),
+      ]).toString(FileEncoding.BASE64);
 
-      // Generate the MAC
-      const mac = this.generateMac(salt, iv, cipherText, key);
+      const envelope = {
+        ...header,
+        salt,
+        iv: iv.toString(FileEncoding.BASE64),
+        cipherText,
+        tag: cipher.getAuthTag().toString(FileEncoding.BASE64),
+      };
 
-      return { salt, iv, cipherText, mac };
+      // Generate the MAC and the key check value
+      return {
+        ...envelope,
+        mac: this.generateEnvelopeMac(envelope, macKey),
+        kcv: this.generateKeyCheckValue(macKey),
+      };
     } catch (error) {
       errorHandler.logGeneralError(error, "encrypt", "Failed to encrypt text");
       throw error;
@@ -45,17 +107,25 @@ export default class CryptoManager extends CryptoUtil{
   }
 
   /**
-   * Decrypts the given encrypted data using the AES-256-CBC decryption algorithm
-   * with a derived key and verifies the message authentication code (MAC).
+   * Decrypts the given encrypted data and verifies its message authentication code (MAC).
+   * The format is chosen by the version of the data: versioned AES-256-GCM envelopes, and
+   * unversioned AES-256-CBC values written before envelopes were introduced (version 0).
    *
    * @param encryptedData - The encrypted data to decrypt.
    * @param secretKey - The secret key used to derive the decryption key.
+   * Every failure is thrown as a CryptoError subclass, so callers can tell the causes apart.
+   *
    * @returns The decrypted string value.
-   * @throws {Error} If an error occurs during decryption or MAC verification.
+   * @throws {MalformedCiphertextError} If the data is empty, not JSON, misses required
+   * properties or cannot be decrypted.
+   * @throws {UnsupportedVersionError} If the version, algorithm or key derivation function
+   * is not supported.
+   * @throws {KeyMismatchError} If the data was encrypted under another secret key.
+   * @throws {MacVerificationError} If the data was tampered with.
    */
   public static decrypt(encryptedData: string, secretKey: string): string {
     if (!encryptedData) {
-      errorHandler.logAndThrowError("Encrypted data is required.");
+      errorHandler.handleUndefinedCipherText();
     }
 
     // Extract the salt, IV, ciphertext, and MAC from the encrypted data
@@ -64,34 +134,198 @@ export default class CryptoManager extends CryptoUtil{
     try {
       // Parse the encrypted data as JSON
       parsedData = JSON.parse(encryptedData) as interfaces.EncryptionParams;
+      if (typeof parsedData !== "object" || parsedData === null) {
+        errorHandler.handleInvalidCipherFormat("the data is not a JSON object.");
+      }
+
+      // Reject unknown versions before their properties are validated
+      const version = this.getVersion(parsedData);
+      if (!this.SUPPORTED_VERSIONS.includes(version)) {
+        errorHandler.logAndThrowCryptoError(
+          new UnsupportedVersionError(
+            `Unsupported encrypted data version: ${version}`,
+            { version }
+          )
+        );
+      }
 
       // Validate if the required properties are present
       this.validateParsedData(parsedData);
     } catch (error) {
-      errorHandler.logAndThrowError(
-        `Invalid encrypted data format. Unable to parse JSON: ${error}`
+      if (error instanceof CryptoError) {
+        throw error;
+      }
+      errorHandler.handleInvalidCipherFormat(`unable to parse JSON: ${error}`);
+    }
+
+    try {
+      return this.getVersion(parsedData) === 0
+        ? this.decryptLegacy(parsedData, secretKey)
+        : this.decryptEnvelope(
+            parsedData as interfaces.EncryptionEnvelope,
+            secretKey
+          );
+    } catch (error) {
+      errorHandler.logGeneralError(error, "decrypt", "Failed to decrypt text");
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies the message authentication code (MAC) of the given encrypted data under the
+   * given secret key without decrypting it.
+   *
+   * @param encryptedData - The serialized encrypted data to verify.
+   * @param secretKey - The secret key used to derive the MAC key.
+   * @returns True if the data was encrypted with the secret key and has not been
+   * tampered with, otherwise false.
+   */
+  public static verifyMac(encryptedData: string, secretKey: string): boolean {
+    try {
+      const parsedData = JSON.parse(encryptedData) as interfaces.EncryptionParams;
+      const { salt, iv, cipherText, mac } = parsedData;
+
+      switch (this.getVersion(parsedData)) {
+        case 0:
+          return this.macEquals(
+            this.generateMac(salt, iv, cipherText, this.deriveKey(secretKey, salt)),
+            mac
+          );
+        case this.ITERATIONS_ENVELOPE_VERSION:
+        case this.ENVELOPE_VERSION: {
+          const envelope = parsedData as interfaces.EncryptionEnvelope;
+          const { macKey } = this.deriveKeys(
+            secretKey,
+            salt,
+            envelope.kdf,
+            this.getKdfParams(envelope)
+          );
+          return this.macEquals(this.generateEnvelopeMac(envelope, macKey), mac);
+        }
+        default:
+          return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Returns the version of the given encrypted data. Values written before versioned
+   * envelopes were introduced have no version and are version 0.
+   *
+   * @param parsedData - The parsed encrypted data.
+   * @returns The version of the encrypted data.
+   */
+  private static getVersion(parsedData: interfaces.EncryptionParams): number {
+    return "v" in parsedData
+      ? (parsedData as interfaces.EncryptionEnvelope).v
+      : 0;
+  }
+
+  /**
+   * Decrypts a versioned AES-256-GCM envelope after verifying its MAC with the separately
+   * derived MAC key. The GCM authentication tag is verified as well. The key check value is
+   * only trusted to report a wrong key when the MAC does not verify; a key check value that
+   * does not match valid data has been tampered with.
+   *
+   * @param envelope - The envelope to decrypt.
+   * @param secretKey - The secret key used to derive the encryption and MAC keys.
+   * @returns The decrypted string value.
+   * @throws {KeyMismatchError} If the key check value does not match the secret key.
+   * @throws {MacVerificationError} If the MAC does not verify.
+   * @throws {MalformedCiphertextError} If the ciphertext cannot be decrypted.
+   */
+  private static decryptEnvelope(
+    envelope: interfaces.EncryptionEnvelope,
+    secretKey: string
+  ): string {
+    const { encryptionKey, macKey } = this.deriveKeys(
+      secretKey,
+      envelope.salt,
+      envelope.kdf,
+      this.getKdfParams(envelope)
+    );
+
+    // Verify the MAC first: the key check value is not covered by it, so it only tells a wrong
+    // key from tampering once the MAC has failed
+    const macVerified = this.macEquals(this.generateEnvelopeMac(envelope, macKey), envelope.mac);
+    const keyMatches =
+      envelope.kcv === undefined ||
+      this.macEquals(this.generateKeyCheckValue(macKey), envelope.kcv);
+
+    if (!macVerified && !keyMatches) {
+      errorHandler.logAndThrowCryptoError(
+        new KeyMismatchError(
+          "Key check failed. The data was encrypted with a different secret key."
+        )
+      );
+    }
+    if (!macVerified || !keyMatches) {
+      errorHandler.logAndThrowCryptoError(
+        new MacVerificationError(
+          envelope.kcv === undefined
+            ? "MAC verification failed. The data may have been tampered with or encrypted with a different secret key."
+            : "MAC verification failed. The data may have been tampered with."
+        )
       );
     }
 
+    // Decrypt the ciphertext, which also verifies the authentication tag
+    try {
+      const decipher = crypto.createDecipheriv(
+        envelope.alg,
+        encryptionKey,
+        Buffer.from(envelope.iv, FileEncoding.BASE64)
+      );
+      decipher.setAAD(Buffer.from(this.getEnvelopeHeader(envelope), FileEncoding.UTF8));
+      decipher.setAuthTag(Buffer.from(envelope.tag, FileEncoding.BASE64));
+
+      return Buffer.concat([
+        decipher.update(Buffer.from(envelope.cipherText, FileEncoding.BASE64)),
+        decipher.final(),
+      ]).toString(FileEncoding.UTF8);
+    } catch {
+      return errorHandler.handleDecryptionFailure();
+    }
+  }
+
+  /**
+   * Decrypts a version 0 value using the AES-256-CBC decryption algorithm
+   * with a derived key and verifies the message authentication code (MAC).
+   *
+   * @param parsedData - The version 0 encrypted data.
+   * @param secretKey - The secret key used to derive the decryption key.
+   * @returns The decrypted string value.
+   * @throws {MacVerificationError} If the MAC does not verify.
+   * @throws {MalformedCiphertextError} If the result is empty or malformed.
+   */
+  private static decryptLegacy(
+    parsedData: interfaces.EncryptionParams,
+    secretKey: string
+  ): string {
     // Pass the salt, IV, ciphertext, and MAC to the decrypt function
     const { salt, iv, cipherText, mac } = parsedData;
 
-    try {
-      // Derive a key from the secret key and salt
-      const decodedIv = CryptoJS.enc.Base64.parse(iv);
-      const decodedCipherText = CryptoJS.enc.Base64.parse(cipherText);
-      const key = this.deriveKey(secretKey, salt);
+    // Derive a key from the secret key and salt
+    const decodedIv = CryptoJS.enc.Base64.parse(iv);
+    const decodedCipherText = CryptoJS.enc.Base64.parse(cipherText);
+    const key = this.deriveKey(secretKey, salt);
 
-      // Verify the MAC
-      const computedMac = this.generateMac(salt, iv, cipherText, key);
+    // Verify the MAC
+    const computedMac = this.generateMac(salt, iv, cipherText, key);
 
-      if (computedMac !== mac) {
-        errorHandler.logAndThrowError(
-          "MAC verification failed. The data may have been tampered with."
-        );
-      }
+    if (!this.macEquals(computedMac, mac)) {
+      errorHandler.logAndThrowCryptoError(
+        new MacVerificationError(
+          "MAC verification failed. The data may have been tampered with or encrypted with a different secret key."
+        )
+      );
+    }
 
-      // Decrypt the ciphertext
+    // Decrypt the ciphertext
+    let decrypted: string;
+    try {
       const decryptedBytes = CryptoJS.AES.decrypt(
         { ciphertext: decodedCipherText } as CryptoJS.lib.CipherParams,
         key,
@@ -99,18 +333,306 @@ export default class CryptoManager extends CryptoUtil{
       );
 
       // Convert the decrypted bytes to a string
-      const decrypted = decryptedBytes.toString(CryptoJS.enc.Utf8);
+      decrypted = decryptedBytes.toString(CryptoJS.enc.Utf8);
+    } catch {
+      return errorHandler.handleDecryptionFailure();
+    }
 
-      if (!decrypted) {
-        errorHandler.logAndThrowError(
-          "Decryption failed. The result is empty or malformed."
+    if (!decrypted) {
+      errorHandler.handleDecryptionFailure();
+    }
+
+    return decrypted;
+  }
+
+  /**
+   * Encrypts a file of any content (e.g. storage state, certificates or test data) with
+   * AES-256-GCM into an encrypted file. The file is streamed, so its size is not limited
+   * by memory.
+   *
+   * The encrypted file starts with a JSON header line recording the version, algorithm, key
+   * derivation function and its parameters, salt, IV, key check value and original file name,
+   * followed by the encrypted content and the 16 byte authentication tag. The header line is
+   * authenticated by the tag as well. The file is written to a temporary file and renamed into
+   * place, so a failed run never leaves a partial file.
+   *
+   * @param inputPath - The path of the file to encrypt.
+   * @param secretKey - The secret key used to derive the encryption key.
+   * @param outputPath - The path of the encrypted file. Defaults to the input path with ".enc" appended.
+   * @returns The path of the encrypted file.
+   * @throws {Error} If the file cannot be read, encrypted or written.
+   */
+  public static async encryptFile(
+    inputPath: string,
+    secretKey: string,
+    outputPath: string = `${inputPath}${this.ENCRYPTED_FILE_EXTENSION}`
+  ): Promise<string> {
+    const tempPath = `${outputPath}.tmp`;
+
+    try {
+      const salt = this.generateSalt();
+      const iv = this.generateIvAsBuffer(
+        appSettings.PARAMETER_LENGTHS.GCM_IV_LENGTH
+      );
+      const kdf = KeyDerivationUtil.getDefaultFunction();
+      const kdfParams = KeyDerivationUtil.getDefaultParams(kdf);
+      const { encryptionKey, macKey } = this.deriveKeys(
+        secretKey,
+        salt,
+        kdf,
+        kdfParams
+      );
+
+      const header: interfaces.EncryptedFileHeader = {
+        v: this.ENVELOPE_VERSION,
+        alg: CipherAlgorithm.AES_256_GCM,
+        kdf,
+        kdfParams,
+        salt,
+        iv: iv.toString(FileEncoding.BASE64),
+        kcv: this.generateKeyCheckValue(macKey),
+        fileName: path.basename(inputPath),
+      };
+      const headerLine = Buffer.from(`${JSON.stringify(header)}\n`, FileEncoding.UTF8);
+
+      const cipher = crypto.createCipheriv(header.alg, encryptionKey, iv);
+      cipher.setAAD(headerLine);
+
+      await pipeline(
+        fs.createReadStream(inputPath),
+        cipher,
+        async function* (encrypted: AsyncIterable<Buffer>) {
+          yield headerLine;
+          for await (const chunk of encrypted) {
+            yield chunk;
+          }
+          yield cipher.getAuthTag();
+        },
+        fs.createWriteStream(tempPath, { mode: 0o600 })
+      );
+
+      fs.renameSync(tempPath, outputPath);
+      return outputPath;
+    } catch (error) {
+      fs.rmSync(tempPath, { force: true });
+      errorHandler.logGeneralError(
+        error,
+        "encryptFile",
+        `Failed to encrypt file ${inputPath}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts a file encrypted with `encryptFile`. The content is streamed into a temporary
+   * file that only replaces the output once the authentication tag has been verified, so
+   * tampered content is never left behind. The output is readable only by the current user.
+   *
+   * @param inputPath - The path of the encrypted file.
+   * @param secretKey - The secret key used to derive the decryption key.
+   * @param outputPath - The path of the decrypted file. Defaults to the input path without ".enc".
+   * @returns The path of the decrypted file.
+   * @throws {MalformedCiphertextError} If the file is not an encrypted file.
+   * @throws {UnsupportedVersionError} If the version, algorithm or key derivation function
+   * is not supported.
+   * @throws {KeyMismatchError} If the file was encrypted under another secret key.
+   * @throws {MacVerificationError} If the file was tampered with.
+   */
+  public static async decryptFile(
+    inputPath: string,
+    secretKey: string,
+    outputPath: string = inputPath.endsWith(this.ENCRYPTED_FILE_EXTENSION)
+      ? inputPath.slice(0, -this.ENCRYPTED_FILE_EXTENSION.length)
+      : `${inputPath}.dec`
+  ): Promise<string> {
+    const tempPath = `${outputPath}.tmp`;
+
+    try {
+      const { header, headerLine } = this.readFileHeader(inputPath);
+      const fileSize = fs.statSync(inputPath).size;
+      const contentEnd = fileSize - this.AUTH_TAG_LENGTH;
+      if (contentEnd < headerLine.length) {
+        errorHandler.logAndThrowCryptoError(
+          new MalformedCiphertextError(
+            "Invalid encrypted file: the content is truncated."
+          )
+        );
+      }
+
+      // The authentication tag is stored after the encrypted content
+      const tag = Buffer.alloc(this.AUTH_TAG_LENGTH);
+      const fd = fs.openSync(inputPath, "r");
+      try {
+        fs.readSync(fd, tag, 0, this.AUTH_TAG_LENGTH, contentEnd);
+      } finally {
+        fs.closeSync(fd);
+      }
+
+      const { encryptionKey, macKey } = this.deriveKeys(
+        secretKey,
+        header.salt,
+        header.kdf,
+        header.kdfParams
+      );
+      if (!this.macEquals(this.generateKeyCheckValue(macKey), header.kcv)) {
+        errorHandler.logAndThrowCryptoError(
+          new KeyMismatchError(
+            "Key check failed. The file was encrypted with a different secret key.",
+            { file: inputPath }
+          )
         );
       }
 
-      return decrypted;
+      const decipher = crypto.createDecipheriv(
+        header.alg,
+        encryptionKey,
+        Buffer.from(header.iv, FileEncoding.BASE64)
+      );
+      decipher.setAAD(headerLine);
+      decipher.setAuthTag(tag);
+
+      const content =
+        contentEnd > headerLine.length
+          ? fs.createReadStream(inputPath, {
+              start: headerLine.length,
+              end: contentEnd - 1,
+            })
+          : Readable.from([]);
+
+      try {
+        await pipeline(
+          content,
+          decipher,
+          fs.createWriteStream(tempPath, { mode: 0o600 })
+        );
+      } catch (error) {
+        errorHandler.logAndThrowCryptoError(
+          new MacVerificationError(
+            "Authentication failed. The file may have been tampered with.",
+            { file: inputPath, reason: (error as Error).message }
+          )
+        );
+      }
+
+      fs.renameSync(tempPath, outputPath);
+      return outputPath;
     } catch (error) {
-      errorHandler.logGeneralError(error, "decrypt", "Failed to decrypt text");
+      fs.rmSync(tempPath, { force: true });
+      errorHandler.logGeneralError(
+        error,
+        "decryptFile",
+        `Failed to decrypt file ${inputPath}`
+      );
       throw error;
     }
   }
+
+  /**
+   * Reads and validates the JSON header line of an encrypted file.
+   *
+   * @param inputPath - The path of the encrypted file.
+   * @returns The parsed header and the raw header line, including its line terminator.
+   * @throws {MalformedCiphertextError} If the file has no valid header line.
+   * @throws {UnsupportedVersionError} If the version, algorithm or key derivation function
+   * is not supported.
+   */
+  private static readFileHeader(inputPath: string): {
+    header: interfaces.EncryptedFileHeader;
+    headerLine: Buffer;
+  } {
+    const buffer = Buffer.alloc(this.MAX_FILE_HEADER_LENGTH);
+    const fd = fs.openSync(inputPath, "r");
+    let bytesRead: number;
+    try {
+      bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    const newlineIndex = buffer.subarray(0, bytesRead).indexOf("\n");
+    if (newlineIndex === -1) {
+      return errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          "Invalid encrypted file: the file has no header line."
+        )
+      );
+    }
+
+    const headerLine = Buffer.from(buffer.subarray(0, newlineIndex + 1));
+    let header: interfaces.EncryptedFileHeader;
+    try {
+      header = JSON.parse(headerLine.toString(FileEncoding.UTF8));
+    } catch (error) {
+      return errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          `Invalid encrypted file: unable to parse the header line: ${error}`
+        )
+      );
+    }
+
+    if (!header || header.v !== this.ENVELOPE_VERSION) {
+      errorHandler.logAndThrowCryptoError(
+        new UnsupportedVersionError(
+          `Unsupported encrypted file version: ${header?.v}`
+        )
+      );
+    }
+    if (header.alg !== CipherAlgorithm.AES_256_GCM) {
+      errorHandler.logAndThrowCryptoError(
+        new UnsupportedVersionError(`Unsupported algorithm: ${header.alg}`)
+      );
+    }
+    if (!KeyDerivationUtil.isSupported(header.kdf)) {
+      errorHandler.logAndThrowCryptoError(
+        new UnsupportedVersionError(
+          `Unsupported key derivation function: ${header.kdf}`
+        )
+      );
+    }
+    if (!header.salt || !header.iv || !header.kcv) {
+      errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          "Invalid encrypted file: missing required properties in the header line."
+        )
+      );
+    }
+    try {
+      KeyDerivationUtil.validateParams(header.kdf, header.kdfParams);
+    } catch (error) {
+      errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          `Invalid encrypted file: ${(error as Error).message}`
+        )
+      );
+    }
+
+    return { header, headerLine };
+  }
+
+  /**
+   * Checks whether the given value is a serialized encryption result produced by `encrypt`,
+   * i.e. a JSON object containing the salt, iv, cipherText and mac properties that every
+   * version of the encrypted data has.
+   * The value is not decrypted, so this does not verify the MAC.
+   *
+   * @param value - The value to check.
+   * @returns True if the value has the shape of the encrypted data, otherwise false.
+   */
+  public static isEncrypted(value: string | undefined): boolean {
+    if (!value || !value.trim().startsWith("{")) {
+      return false;
+    }
+
+    try {
+      const parsedData = JSON.parse(value) as Partial<interfaces.EncryptionParams>;
+      return ["salt", "iv", "cipherText", "mac"].every(
+        (property) =>
+          typeof parsedData[property as keyof interfaces.EncryptionParams] ===
+          "string"
+      );
+    } catch {
+      return false;
+    }
+  }
 }
\ No newline at end of file
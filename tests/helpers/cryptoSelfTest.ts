@@ -0,0 +1,136 @@
+import CryptoJS from "crypto-js";
+import * as crypto from "crypto";
+import errorHandler from "./errorHandler";
+import KeyDerivationUtil from "../utils/keyDerivationUtil";
+import CryptoUtil from "../utils/cryptoUtil";
+import logger from "../utils/loggerUtil";
+import { CipherAlgorithm, KeyDerivationFunction } from "../models/utilityEnums";
+
+export default class CryptoSelfTest {
+  // Published test vectors of the primitives, as [name, check, expected hex]
+  private static readonly PRIMITIVE_VECTORS: [string, () => string, string][] = [
+    [
+      "PBKDF2-HMAC-SHA256 (RFC 7914)",
+      () =>
+        KeyDerivationUtil.derive(
+          KeyDerivationFunction.PBKDF2_SHA256,
+          "passwd",
+          Buffer.from("salt"),
+          64,
+          { iterations: 1 }
+        ).toString("hex"),
+      "55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783",
+    ],
+    [
+      "scrypt (RFC 7914)",
+      () =>
+        KeyDerivationUtil.derive(
+          KeyDerivationFunction.SCRYPT,
+          "password",
+          Buffer.from("NaCl"),
+          64,
+          { cost: 1024, blockSize: 8, parallelization: 16 }
+        ).toString("hex"),
+      "fdbabe1c9d3472007856e7190d01e9fe7c6ad7cbc8237830e77376634b3731622eaf30d92e22a3886ff109279d9830dac727afb94a83ee6d8360cbdfa2cc0640",
+    ],
+    [
+      "HMAC-SHA256 (RFC 4231)",
+      () => CryptoJS.HmacSHA256("what do ya want for nothing?", "Jefe").toString(),
+      "5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843",
+    ],
+    [
+      "AES-256-GCM (GCM specification test case 14)",
+      () => {
+        const cipher = crypto.createCipheriv(
+          CipherAlgorithm.AES_256_GCM,
+          Buffer.alloc(32),
+          Buffer.alloc(12)
+        );
+        const cipherText = Buffer.concat([cipher.update(Buffer.alloc(16)), cipher.final()]);
+        return Buffer.concat([cipherText, cipher.getAuthTag()]).toString("hex");
+      },
+      "cea7403d4d606b6e074ec5d3baf39d18d0d1c8a799996bf0265b98b5d48ab919",
+    ],
+  ];
+
+  /**
+   * Checks whether the self-test runs in global setup. It can be disabled by setting
+   * CRYPTO_SELF_TEST=off.
+   *
+   * @returns True unless the self-test is disabled.
+   */
+  public static isEnabled(): boolean {
+    return process.env.CRYPTO_SELF_TEST?.toLowerCase() !== "off";
+  }
+
+  /**
+   * Verifies that the crypto primitives work before any value is decrypted: each primitive
+   * against its published test vector, and an AES-256-GCM round trip under a key derived with
+   * a single iteration, which must detect tampering and wrong keys. Every check takes
+   * milliseconds; the known-answer values of the stored formats, which need the full key
+   * derivation, are checked by the unit tests instead. All checks run and every failure is
+   * reported together.
+   *
+   * @throws {Error} If any check fails.
+   */
+  public static run(): void {
+    const startTime = Date.now();
+    const failures: string[] = [];
+    const check = (name: string, passed: () => boolean) => {
+      try {
+        if (!passed()) {
+          failures.push(name);
+        }
+      } catch (error) {
+        failures.push(`${name}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+
+    for (const [name, compute, expected] of this.PRIMITIVE_VECTORS) {
+      check(name, () => compute() === expected);
+    }
+
+    const plainText = "Self-test: ✓ naïve 🔐";
+    const key = KeyDerivationUtil.derive(
+      KeyDerivationFunction.PBKDF2_SHA256,
+      CryptoUtil.generateKey(),
+      Buffer.from(CryptoUtil.generateSalt(), "base64"),
+      32,
+      { iterations: 1 }
+    );
+    const iv = CryptoUtil.generateIvAsBuffer(12);
+    const cipher = crypto.createCipheriv(CipherAlgorithm.AES_256_GCM, key, iv);
+    const cipherText = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    const decrypt = (decryptionKey: Buffer, data: Buffer) => {
+      const decipher = crypto.createDecipheriv(CipherAlgorithm.AES_256_GCM, decryptionKey, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+    };
+    const fails = (attempt: () => string) => {
+      try {
+        attempt();
+        return false;
+      } catch {
+        return true;
+      }
+    };
+
+    check("AES-256-GCM round trip", () => decrypt(key, cipherText) === plainText);
+    check("tamper detection", () =>
+      fails(() =>
+        decrypt(key, Buffer.from(cipherText.map((byte, index) => (index ? byte : byte ^ 1))))
+      )
+    );
+    check("wrong key detection", () => fails(() => decrypt(crypto.randomBytes(32), cipherText)));
+
+    if (failures.length > 0) {
+      errorHandler.logAndThrowError(
+        `Crypto self-test failed, values cannot be encrypted or decrypted safely:\n  - ${failures.join(
+          "\n  - "
+        )}`
+      );
+    }
+    logger.info(`Crypto self-test passed in ${Date.now() - startTime}ms`);
+  }
+}
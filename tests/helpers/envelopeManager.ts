@@ -0,0 +1,276 @@
+import CryptoUtil from "../utils/cryptoUtil";
+import CryptoManager from "./cryptoManager";
+import { KeyMismatchError, MalformedCiphertextError } from "./cryptoErrorTypes";
+import errorHandler from "./errorHandler";
+import SecretRedactor from "../utils/secretRedactor";
+import * as interfaces from "../models/interfaces";
+
+/**
+ * Envelope encryption for shared environment files. The values of the file are encrypted
+ * under a random data key, and the data key is wrapped once under the secret key of every
+ * recipient (each engineer or CI pipeline). The wrapped keys are stored in a header comment
+ * at the top of the file, so dotenv ignores it:
+ *
+ *   # @envelope {"v":1,"recipients":[{"id":"alice","wrappedKey":{...}}]}
+ *
+ * Any recipient's secret key unwraps the data key, and adding or removing a recipient
+ * only changes the header, not the encrypted values. A removed recipient may still know the
+ * data key, so removing someone who must lose access also requires rotating the data key.
+ */
+export default class EnvelopeManager {
+  public static readonly HEADER_PREFIX = "# @envelope ";
+  private static readonly HEADER_VERSION = 1;
+
+  /**
+   * Returns the envelope header of the parsed lines of an environment file.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @returns The envelope header, or undefined if the file does not use envelope encryption.
+   * @throws {MalformedCiphertextError} If the header is not valid.
+   */
+  public static parseHeader(
+    lines: interfaces.EnvFileLine[]
+  ): interfaces.EnvelopeHeader | undefined {
+    const headerLine = lines.find(
+      (line) => line.type === "comment" && line.raw.startsWith(this.HEADER_PREFIX)
+    );
+    if (!headerLine) {
+      return undefined;
+    }
+
+    let header: interfaces.EnvelopeHeader;
+    try {
+      header = JSON.parse(headerLine.raw.slice(this.HEADER_PREFIX.length));
+    } catch (error) {
+      return errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          `Invalid envelope header on line ${headerLine.lineNumber}: ${error}`
+        )
+      );
+    }
+
+    if (
+      header?.v !== this.HEADER_VERSION ||
+      !Array.isArray(header.recipients) ||
+      header.recipients.some(
+        (recipient) => !recipient?.id || typeof recipient.wrappedKey !== "object"
+      )
+    ) {
+      errorHandler.logAndThrowCryptoError(
+        new MalformedCiphertextError(
+          `Invalid envelope header on line ${headerLine.lineNumber}: expected version ${this.HEADER_VERSION} with a list of recipients.`
+        )
+      );
+    }
+    return header;
+  }
+
+  /**
+   * Writes the envelope header into the parsed lines, replacing the existing header or
+   * inserting it as the first line.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @param header - The envelope header to write.
+   * @returns The updated lines.
+   */
+  public static setHeader(
+    lines: interfaces.EnvFileLine[],
+    header: interfaces.EnvelopeHeader
+  ): interfaces.EnvFileLine[] {
+    const eol = lines.find((line) => /\r\n$/.test(line.raw)) ? "\r\n" : "\n";
+    const headerLine: interfaces.EnvFileLine = {
+      type: "comment",
+      raw: `${this.HEADER_PREFIX}${JSON.stringify(header)}${eol}`,
+      lineNumber: 1,
+    };
+
+    const index = lines.findIndex(
+      (line) => line.type === "comment" && line.raw.startsWith(this.HEADER_PREFIX)
+    );
+    return index === -1
+      ? [headerLine, ...lines]
+      : lines.map((line, lineIndex) => (lineIndex === index ? headerLine : line));
+  }
+
+  /**
+   * Creates an envelope header for a new data key with a single recipient.
+   *
+   * @param recipientId - The name of the first recipient.
+   * @param recipientKey - The secret key of the first recipient.
+   * @returns The new data key and the header holding it wrapped for the recipient.
+   */
+  public static createHeader(
+    recipientId: string,
+    recipientKey: string
+  ): { dataKey: string; header: interfaces.EnvelopeHeader } {
+    const dataKey = CryptoUtil.generateKey();
+    return {
+      dataKey,
+      header: {
+        v: this.HEADER_VERSION,
+        recipients: [{ id: recipientId, wrappedKey: CryptoManager.encrypt(dataKey, recipientKey) }],
+      },
+    };
+  }
+
+  /**
+   * Unwraps the data key with the secret key of one of the recipients. Only the recipient whose
+   * key verifies is decrypted, so the other recipients do not produce errors.
+   *
+   * @param header - The envelope header.
+   * @param secretKey - The secret key of a recipient.
+   * @returns The data key.
+   * @throws {KeyMismatchError} If the secret key is not the key of any recipient.
+   */
+  public static unwrapDataKey(
+    header: interfaces.EnvelopeHeader,
+    secretKey: string
+  ): string {
+    const recipient = this.findRecipient(header, secretKey);
+    if (!recipient) {
+      return errorHandler.logAndThrowCryptoError(
+        new KeyMismatchError(
+          "The secret key does not belong to any recipient of the environment file.",
+          { recipients: header.recipients.map(({ id }) => id) }
+        )
+      );
+    }
+    const dataKey = CryptoManager.decrypt(JSON.stringify(recipient.wrappedKey), secretKey);
+    SecretRedactor.register(dataKey);
+    return dataKey;
+  }
+
+  /**
+   * Finds the recipient whose wrapped data key verifies under the given secret key.
+   *
+   * @param header - The envelope header.
+   * @param secretKey - The secret key to look up.
+   * @returns The recipient, or undefined if the secret key is not the key of any recipient.
+   */
+  public static findRecipient(
+    header: interfaces.EnvelopeHeader,
+    secretKey: string
+  ): interfaces.EnvelopeRecipient | undefined {
+    return header.recipients.find((candidate) =>
+      CryptoManager.verifyMac(JSON.stringify(candidate.wrappedKey), secretKey)
+    );
+  }
+
+  /**
+   * Returns the key that the values of an environment file are encrypted with: the unwrapped
+   * data key if the file uses envelope encryption, otherwise the secret key itself.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @param secretKey - The secret key of the environment or of a recipient.
+   * @returns The key of the values.
+   * @throws {KeyMismatchError} If the file uses envelope encryption and the secret key is not a recipient.
+   */
+  public static resolveFileKey(
+    lines: interfaces.EnvFileLine[],
+    secretKey: string
+  ): string {
+    const header = this.parseHeader(lines);
+    return header ? this.unwrapDataKey(header, secretKey) : secretKey;
+  }
+
+  /**
+   * Returns a copy of the header with the data key wrapped for the given recipient. An
+   * existing recipient with the same name gets the new key, e.g. after changing their key.
+   *
+   * @param header - The envelope header.
+   * @param dataKey - The unwrapped data key.
+   * @param recipientId - The name of the recipient.
+   * @param recipientKey - The secret key of the recipient.
+   * @returns The updated header.
+   */
+  public static addRecipient(
+    header: interfaces.EnvelopeHeader,
+    dataKey: string,
+    recipientId: string,
+    recipientKey: string
+  ): interfaces.EnvelopeHeader {
+    const recipient = { id: recipientId, wrappedKey: CryptoManager.encrypt(dataKey, recipientKey) };
+    return {
+      ...header,
+      recipients: [...header.recipients.filter(({ id }) => id !== recipientId), recipient],
+    };
+  }
+
+  /**
+   * Returns a copy of the header without the given recipient.
+   *
+   * @param header - The envelope header.
+   * @param recipientId - The name of the recipient to remove.
+   * @returns The updated header.
+   * @throws {Error} If the recipient does not exist or is the last recipient.
+   */
+  public static removeRecipient(
+    header: interfaces.EnvelopeHeader,
+    recipientId: string
+  ): interfaces.EnvelopeHeader {
+    if (!header.recipients.some(({ id }) => id === recipientId)) {
+      errorHandler.logAndThrowError(`Recipient '${recipientId}' was not found`);
+    }
+    if (header.recipients.length === 1) {
+      errorHandler.logAndThrowError(
+        `Recipient '${recipientId}' is the last recipient and cannot be removed`
+      );
+    }
+    return {
+      ...header,
+      recipients: header.recipients.filter(({ id }) => id !== recipientId),
+    };
+  }
+
+  /**
+   * Creates a header for a new data key, wrapped for every recipient of the given header.
+   * The data key cannot be re-wrapped without the recipients' secret keys, so a key must be
+   * given for every recipient, and each key must unwrap the recipient's current wrapped key.
+   *
+   * @param header - The envelope header.
+   * @param recipientKeys - The secret keys of the recipients, by recipient name.
+   * @returns The new data key and the header holding it wrapped for every recipient.
+   * @throws {Error} If the key of a recipient is missing.
+   * @throws {KeyMismatchError} If a key is not the current key of its recipient.
+   */
+  public static rotateDataKey(
+    header: interfaces.EnvelopeHeader,
+    recipientKeys: Record<string, string>
+  ): { dataKey: string; header: interfaces.EnvelopeHeader } {
+    const missing = header.recipients
+      .filter(({ id }) => !recipientKeys[id])
+      .map(({ id }) => id);
+    if (missing.length > 0) {
+      errorHandler.logAndThrowError(
+        `The secret key of recipient(s) ${missing.join(", ")} is required to rotate the data key`
+      );
+    }
+
+    const mismatched = header.recipients
+      .filter(
+        ({ id, wrappedKey }) =>
+          !CryptoManager.verifyMac(JSON.stringify(wrappedKey), recipientKeys[id])
+      )
+      .map(({ id }) => id);
+    if (mismatched.length > 0) {
+      errorHandler.logAndThrowCryptoError(
+        new KeyMismatchError(
+          `The secret key given for recipient(s) ${mismatched.join(", ")} does not unwrap their data key.`,
+          { recipients: mismatched }
+        )
+      );
+    }
+
+    const dataKey = CryptoUtil.generateKey();
+    return {
+      dataKey,
+      header: {
+        ...header,
+        recipients: header.recipients.map(({ id }) => ({
+          id,
+          wrappedKey: CryptoManager.encrypt(dataKey, recipientKeys[id]),
+        })),
+      },
+    };
+  }
+}
@@ -1,12 +1,20 @@
 import CryptoUtil from "../utils/cryptoUtil";
 import CryptoManager from "./cryptoManager";
+import EnvelopeManager from "./envelopeManager";
 import EnvConfig from "../utils/envConfig";
 import * as envFiles from "../models/envFilePath";
 import { FileEncoding } from "../models/utilityEnums";
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import errorHandler from "./errorHandler";
 import logger from "../utils/loggerUtil";
+import * as interfaces from "../models/interfaces";
+import EnvFileParser from "../utils/envFileParser";
+import KeyPatternUtil from "../utils/keyPatternUtil";
+import SecretRedactor from "../utils/secretRedactor";
+import envSchema from "../config/envSchema";
+import * as appSettings from "../config/appSettings.json";
 
 export default class EnvironmentManager {
 
@@ -15,17 +23,21 @@ export default class EnvironmentManager {
   private readonly baseEnvFilePath: string;
   private envFilePath: string;
   private secretKey: string;
+  private encryptionRules: Required<interfaces.EncryptionOptions>;
 
-  constructor() {
+  /**
+   * @param envDirPath - The directory of the environment files, e.g. a temporary directory in
+   * tests. Defaults to the environment directory of the project.
+   */
+  constructor(envDirPath?: string) {
     // set env dir path
-    this.envDirPath = path.resolve(
-      process.cwd(),
-      envFiles.Environments.ENV_DIR
-    );
+    this.envDirPath = envDirPath
+      ? path.resolve(envDirPath)
+      : path.resolve(process.cwd(), envFiles.Environments.ENV_DIR);
 
     // set base env file path
-    this.baseEnvFilePath = path.resolve(
-      envFiles.Environments.ENV_DIR,
+    this.baseEnvFilePath = path.join(
+      this.envDirPath,
       envFiles.Environments.BASE_ENV_FILE
     );
 
@@ -33,10 +45,16 @@ export default class EnvironmentManager {
     // These values will be reassigned in the initializeEncryption method.
     this.envFilePath = "";
     this.secretKey = "";
+    this.encryptionRules = { include: [], exclude: [] };
 
     // ensure env dir and base env file exist
-    EnvConfig.ensureEnvDirExists();
-    EnvConfig.ensureEnvFileExists();
+    if (envDirPath) {
+      fs.mkdirSync(this.envDirPath, { recursive: true });
+      fs.writeFileSync(this.baseEnvFilePath, "", { flag: "a" });
+    } else {
+      EnvConfig.ensureEnvDirExists();
+      EnvConfig.ensureEnvFileExists();
+    }
   }
 
   // Base env setup
@@ -107,7 +125,7 @@ export default class EnvironmentManager {
 
   /**
    * Reads the value of a key from the base environment file.
-   * The value is extracted using a regular expression.
+   * The file is parsed with the dotenv rules, so quoted values and inline comments are handled.
    * Logs an error and throws an exception if reading fails.
    *
    * @param keyName - The name of the key to read from the environment file.
@@ -116,10 +134,8 @@ export default class EnvironmentManager {
    */
   public getKeyValue(keyName: string): string | undefined {
     try {
-      const envConfig = this.readBaseEnvFile();
-      const regex = new RegExp(`^${keyName}=(.*)$`, "m");
-      const match = envConfig.match(regex);
-      return match ? match[1] : undefined;
+      const envConfig = EnvFileParser.parse(this.readBaseEnvFile());
+      return EnvFileParser.getValue(envConfig, keyName);
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -133,6 +149,7 @@ export default class EnvironmentManager {
   /**
    * Stores a key-value pair in the base environment file.
    * If the key already exists, its value is updated; otherwise, the key-value pair is appended.
+   * All other lines, including comments, are written back unchanged.
    * Logs an error and throws an exception if the operation fails.
    *
    * @param keyName - The name of the key to store in the environment file.
@@ -142,17 +159,12 @@ export default class EnvironmentManager {
   public storeKeyInEnv(keyName: string, keyValue: string): void {
     try {
       // read the env file
-      let envConfig = this.readBaseEnvFile();
+      const envConfig = EnvFileParser.parse(this.readBaseEnvFile());
 
       // Update or append the specified key
-      const regex = new RegExp(`^${keyName}=.*`, "m");
-      if (regex.test(envConfig)) {
-        envConfig = envConfig.replace(regex, `${keyName}=${keyValue}`);
-      } else {
-        envConfig += `${keyName}=${keyValue}\n`;
-      }
+      const updatedConfig = EnvFileParser.setValue(envConfig, keyName, keyValue);
 
-      this.writeKeyToEnvFile(envConfig, keyName);
+      this.writeKeyToEnvFile(EnvFileParser.serialize(updatedConfig), keyName);
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -166,17 +178,27 @@ export default class EnvironmentManager {
   // Encryption setup
 
   /**
-   * Initializes the encryption process by setting the environment file path and
-   * deriving the secret key.
+   * Initializes the encryption process by setting the environment file path,
+   * deriving the secret key and resolving which keys are secrets. If the file uses
+   * envelope encryption, the data key is unwrapped with the secret key and used instead.
    *
    * @param env - The name of the environment to resolve the path.
    * @param secretKey - The initial secret key used for deriving the encryption key.
+   * @param options - Optional key patterns that override the configured encryption rules.
    * @throws {Error} If an error occurs while initializing encryption.
    */
-  public initializeEncryption(env: string, secretKey: string): void {
+  public initializeEncryption(
+    env: string,
+    secretKey: string,
+    options?: interfaces.EncryptionOptions
+  ): void {
     try {
       this.envFilePath = path.resolve(this.envDirPath, env);
       this.secretKey = this.getSecretKey(secretKey);
+      if (fs.existsSync(this.envFilePath)) {
+        this.secretKey = EnvelopeManager.resolveFileKey(this.readEnvFile(), this.secretKey);
+      }
+      this.encryptionRules = this.resolveEncryptionRules(env, options);
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -189,21 +211,24 @@ export default class EnvironmentManager {
 
   /**
    * Encrypts environment variables by reading the environment file, encrypting each line,
-   * and writing the encrypted lines back to the file. Logs a success message indicating
-   * the number of variables encrypted.
+   * and writing the encrypted lines back to the file. Values that are already encrypted under
+   * the current secret key are left as they are, so running the encryption again only encrypts
+   * new plaintext entries. Logs a summary of the encrypted, ignored, skipped and rejected variables.
    *
+   * @returns A summary of the keys that were encrypted, ignored, skipped and rejected.
    * @throws {Error} If an error occurs during the encryption process.
    */
-  public encryptEnvVariables(): void {
+  public encryptEnvVariables(): interfaces.EncryptionSummary {
     try {
       // Read the environment file
-      const envFileContent = this.readEnvFileAsLines();
+      const envFileContent = this.readEnvFile();
       // Encrypt the environment variables, line by line
-      const encryptedLines = this.encryptLines(envFileContent);
+      const { lines, summary } = this.encryptLines(envFileContent);
       // Write the encrypted lines to the environment file
-      this.writeEnvFileLines(encryptedLines);
-      // Log the encryption success message
-      this.logEncryptionSuccess(envFileContent.length, encryptedLines.length);
+      this.writeEnvFile(lines);
+      // Log the encryption summary
+      this.logEncryptionSummary(summary);
+      return summary;
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -215,78 +240,87 @@ export default class EnvironmentManager {
   }
 
   /**
-   * Encrypts an array of strings where each string is expected to be a line from
-   * a properties file. The input should be an array of strings, and each string
-   * should be in the format "key=value". The function will preserve the order and
-   * whitespace of the input, and will return an array of strings where each string
-   * is the encrypted equivalent of the input line.
+   * Encrypts the values of the parsed lines of an environment file. The function preserves
+   * the order of the input and returns the lines with their values encrypted; quotes are
+   * removed by the parser first, so the full value is encrypted even when it contains
+   * "=", "#" or spans several lines.
    *
-   * If the input contains any lines that are empty or contain only whitespace, the
-   * function will throw an error.
+   * Only keys that are secrets according to the encryption rules are encrypted; other
+   * plaintext entries pass through untouched and are reported as ignored.
    *
-   * If the input contains any lines that do not contain a "=", the function will
-   * log an error message and skip the line.
+   * Values that are already encrypted are not encrypted again: if their MAC verifies
+   * under the current secret key they are skipped, otherwise they are rejected and
+   * kept unchanged, since they were encrypted with a different key or were tampered with.
    *
-   * If the input contains any lines that cannot be encrypted, the function will
-   * log an error message and skip the line.
+   * Empty lines, comments and entries without a value are kept unchanged. Lines that are
+   * not valid definitions are logged as format errors and kept unchanged.
    *
-   * @param lines - The array of strings to encrypt.
-   * @returns An array of strings where each string is the encrypted equivalent of
-   * the input line.
-   * @throws {Error} If the input is not an array of strings.
-   * @throws {Error} If the input contains any lines that are empty or contain only
-   * whitespace.
+   * @param lines - The parsed lines to encrypt.
+   * @returns The encrypted lines and a summary of the encrypted, ignored, skipped and rejected keys.
+   * @throws {Error} If the input contains only empty lines or whitespace.
    * @throws {Error} If the input contains any lines that cannot be encrypted.
    */
-  private encryptLines(lines: string[]): string[] {
+  private encryptLines(lines: interfaces.EnvFileLine[]): {
+    lines: interfaces.EnvFileLine[];
+    summary: interfaces.EncryptionSummary;
+  } {
     try {
-      if (
-        !Array.isArray(lines) ||
-        !lines.every((line) => typeof line === "string")
-      ) {
-        logger.error("Input must be an array of strings.");
-        throw new TypeError("Input must be an array of strings.");
-      }
-
-      if (lines.every((line) => line.trim() === "")) {
+      if (lines.every((line) => line.type === "blank")) {
         errorHandler.logAndThrowError(
           "File is completely empty or contains only whitespace."
         );
       }
 
-      const encryptedLines: string[] = [];
+      const encryptedLines: interfaces.EnvFileLine[] = [];
+      const summary: interfaces.EncryptionSummary = {
+        encrypted: [],
+        ignored: [],
+        skipped: [],
+        rejected: [],
+      };
       const errors: string[] = [];
 
-      for (let index = 0; index < lines.length; index++) {
-        const line = lines[index];
-        const trimmedLine = line.trim();
-
-        if (trimmedLine === "") {
-          encryptedLines.push(""); // Keep empty lines unchanged
-          continue;
-        }
-
-        if (!trimmedLine.includes("=")) {
+      for (const line of lines) {
+        if (line.type === "invalid") {
           const errorMessage = errorHandler.handleInvalidFormatError(
-            index,
-            line
+            line.lineNumber - 1,
+            line.raw.trim()
           );
           logger.error(errorMessage);
           errors.push(errorMessage);
-          continue; // Skip malformed lines
+          encryptedLines.push(line); // Keep malformed lines for the user to fix
+          continue;
+        }
+
+        if (line.type !== "entry" || !line.value) {
+          encryptedLines.push(line); // Keep empty lines, comments and empty values unchanged
+          continue;
         }
 
-        const [key, value] = trimmedLine.split("=");
-        if (value) {
+        const key = line.key!;
+        if (CryptoManager.isEncrypted(line.value)) {
+          // Never encrypt a value twice, only check that it belongs to the current key
+          if (CryptoManager.verifyMac(line.value, this.secretKey)) {
+            summary.skipped.push(key);
+          } else {
+            logger.warn(
+              `Variable '${key}' is already encrypted but does not verify under the current secret key. It was left unchanged.`
+            );
+            summary.rejected.push(key);
+          }
+          encryptedLines.push(line);
+        } else if (!this.isSecretKey(key)) {
+          encryptedLines.push(line); // Not a secret, keep the plaintext value
+          summary.ignored.push(key);
+        } else {
           // Generate encryption metadata
           const encryptionResult = CryptoManager.encrypt(
-            value.trim(),
+            line.value,
             this.secretKey
           );
           const encryptedValue = JSON.stringify(encryptionResult); // Serialize to JSON
-          encryptedLines.push(`${key}=${encryptedValue}`); // Add serialized JSON
-        } else {
-          encryptedLines.push(line); // Preserve the line if no value
+          encryptedLines.push(EnvFileParser.withValue(line, encryptedValue));
+          summary.encrypted.push(key);
         }
       }
 
@@ -297,7 +331,7 @@ export default class EnvironmentManager {
           "Failed to encrypt some lines"
         );
       }
-      return encryptedLines;
+      return { lines: encryptedLines, summary };
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -308,6 +342,805 @@ export default class EnvironmentManager {
     }
   }
 
+  /**
+   * Resolves the encryption rules for an environment. Per-call options take precedence over
+   * the environment-specific rules in appSettings.json, which take precedence over the default
+   * rules. Keys declared as encrypted in the environment schema are always included.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param options - Optional key patterns passed by the caller.
+   * @returns The include and exclude patterns to apply.
+   */
+  private resolveEncryptionRules(
+    env: string,
+    options?: interfaces.EncryptionOptions
+  ): Required<interfaces.EncryptionOptions> {
+    const envName = path.basename(env).replace(/^\.env\.?/, "");
+    const environmentRules = (
+      appSettings.ENCRYPTION_RULES.environments as Record<
+        string,
+        interfaces.EncryptionOptions
+      >
+    )[envName];
+    const defaultRules = appSettings.ENCRYPTION_RULES.default;
+
+    const schemaSecrets = Object.keys(envSchema).filter(
+      (key) => envSchema[key].encrypted
+    );
+
+    return {
+      include: [
+        ...(options?.include ??
+          environmentRules?.include ??
+          defaultRules.include),
+        ...schemaSecrets,
+      ],
+      exclude:
+        options?.exclude ?? environmentRules?.exclude ?? defaultRules.exclude,
+    };
+  }
+
+  /**
+   * Checks whether a key is a secret according to the resolved encryption rules.
+   * Patterns are matched case-insensitively against the whole key, "*" matches any
+   * characters and "?" a single character.
+   *
+   * @param key - The key to check.
+   * @returns True if the key matches an include pattern and no exclude pattern.
+   */
+  private isSecretKey(key: string): boolean {
+    return (
+      KeyPatternUtil.matchesAny(key, this.encryptionRules.include) &&
+      !KeyPatternUtil.matchesAny(key, this.encryptionRules.exclude)
+    );
+  }
+
+  // Reveal
+
+  /**
+   * Decrypts the value of a single key from an environment file. Plaintext values are
+   * returned as they are. An audit line is written for every reveal, recording who revealed
+   * which key of which environment and when, but never the value itself.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param keyName - The name of the key to reveal.
+   * @param secretKey - The secret key used to decrypt the value.
+   * @returns The decrypted value of the key.
+   * @throws {Error} If the key does not exist or cannot be decrypted.
+   */
+  public revealValue(env: string, keyName: string, secretKey: string): string {
+    try {
+      this.initializeEncryption(env, secretKey);
+      const value = EnvFileParser.getValue(this.readEnvFile(), keyName);
+
+      if (value === undefined) {
+        errorHandler.logAndThrowError(
+          `Key '${keyName}' was not found in the ${path.basename(
+            this.envFilePath
+          )} file`
+        );
+      }
+
+      const plainText = CryptoManager.isEncrypted(value)
+        ? CryptoManager.decrypt(value, this.secretKey)
+        : value;
+      SecretRedactor.registerVariable(keyName, plainText);
+
+      this.writeAuditLog("reveal", [keyName]);
+      return plainText;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "revealValue",
+        `Failed to reveal ${keyName}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts every value of an environment file into a temporary plaintext copy, readable
+   * only by the current user. The environment file itself is not modified. An audit line
+   * listing the revealed keys is written, but never the values.
+   *
+   * When key names are given, the copy contains only the definitions of those keys. This is
+   * how single values are revealed from the test runner, whose reporters keep its output.
+   *
+   * The caller is responsible for deleting the copy once it is no longer needed.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param secretKey - The secret key used to decrypt the values.
+   * @param keyNames - The keys to export. Defaults to the whole file.
+   * @returns The path of the temporary plaintext copy.
+   * @throws {Error} If a key does not exist, a value cannot be decrypted or the copy cannot be written.
+   */
+  public exportDecryptedFile(env: string, secretKey: string, keyNames?: string[]): string {
+    try {
+      this.initializeEncryption(env, secretKey);
+      const revealedKeys: string[] = [];
+
+      let lines = this.readEnvFile();
+      if (keyNames) {
+        const missingKeys = keyNames.filter(
+          (keyName) => EnvFileParser.getValue(lines, keyName) === undefined
+        );
+        if (missingKeys.length > 0) {
+          errorHandler.logAndThrowError(
+            `Key(s) ${missingKeys.join(", ")} not found in the ${path.basename(
+              this.envFilePath
+            )} file`
+          );
+        }
+        lines = lines.filter((line) => line.type === "entry" && keyNames.includes(line.key!));
+      }
+
+      const decryptedLines = lines.map((line) => {
+        if (line.type !== "entry" || !CryptoManager.isEncrypted(line.value)) {
+          return line;
+        }
+        const plainText = CryptoManager.decrypt(line.value!, this.secretKey);
+        SecretRedactor.registerVariable(line.key!, plainText);
+        revealedKeys.push(line.key!);
+        return EnvFileParser.withValue(line, plainText);
+      });
+
+      const exportDir = fs.mkdtempSync(path.join(os.tmpdir(), "env-reveal-"));
+      const exportPath = path.join(exportDir, path.basename(this.envFilePath));
+      fs.writeFileSync(exportPath, EnvFileParser.serialize(decryptedLines), {
+        encoding: FileEncoding.UTF8,
+        mode: 0o600,
+      });
+
+      this.writeAuditLog("export", revealedKeys);
+      logger.info(`Decrypted copy written to ${exportPath}`);
+      return exportPath;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "exportDecryptedFile",
+        "Failed to export decrypted environment file"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Writes an audit line for a reveal or export of decrypted values through the logger.
+   * The line records the user, the time, the environment file and the key names.
+   *
+   * @param action - The action that revealed the values.
+   * @param keyNames - The names of the revealed keys.
+   */
+  private writeAuditLog(action: "reveal" | "export", keyNames: string[]): void {
+    let user: string;
+    try {
+      user = os.userInfo().username;
+    } catch {
+      user = process.env.USER ?? process.env.USERNAME ?? "unknown";
+    }
+
+    logger.info(
+      `[AUDIT] action=${action} user=${user} host=${os.hostname()} time=${new Date().toISOString()} file=${path.relative(
+        process.cwd(),
+        this.envFilePath
+      )} keys=${keyNames.join(",") || "none"}`
+    );
+  }
+
+  // Drift report
+
+  /**
+   * Compares the environment files of the given environments and reports drift: the keys
+   * missing from each file compared to the others, and the keys present in a file but not
+   * declared in the environment schema, and therefore never read through ENV.
+   *
+   * When secret keys are supplied, the values of every key present in more than one file
+   * are also compared after decryption. Only whether they differ is reported, never the values.
+   * Encrypted values of an environment without a supplied secret key are not compared.
+   *
+   * @param environments - The names of the environments to compare (e.g. ["dev", "uat", "prod"]).
+   * @param secretKeys - Optional secret keys by environment name, used to compare decrypted values.
+   * @returns The drift report.
+   * @throws {Error} If a file cannot be read or a value cannot be decrypted.
+   */
+  public compareEnvironments(
+    environments: string[],
+    secretKeys: Record<string, string> = {}
+  ): interfaces.EnvDriftReport {
+    try {
+      const records: Record<string, Record<string, string>> = {};
+      const fileKeys: Record<string, string> = {};
+      for (const env of environments) {
+        this.envFilePath = path.resolve(
+          this.envDirPath,
+          EnvConfig.getEnvFileName(env)
+        );
+        if (!fs.existsSync(this.envFilePath)) {
+          logger.warn(
+            `Environment file not found: ${this.envFilePath}. All keys are reported missing for '${env}'.`
+          );
+          records[env] = {};
+          continue;
+        }
+        const lines = this.readEnvFile();
+        records[env] = EnvFileParser.toRecord(lines);
+        if (secretKeys[env]) {
+          fileKeys[env] = EnvelopeManager.resolveFileKey(lines, secretKeys[env]);
+        }
+      }
+
+      const compareValues = Object.keys(secretKeys).length > 0;
+      const allKeys = [
+        ...new Set(Object.values(records).flatMap((record) => Object.keys(record))),
+      ].sort();
+
+      const keys = allKeys.map((key): interfaces.EnvDriftEntry => {
+        const presentIn = environments.filter((env) => key in records[env]);
+        const entry: interfaces.EnvDriftEntry = {
+          key,
+          presentIn,
+          missingIn: environments.filter((env) => !(key in records[env])),
+          inSchema: key in envSchema,
+        };
+
+        if (compareValues && presentIn.length > 1) {
+          const values = presentIn.map((env) =>
+            this.getComparableValue(records[env][key], fileKeys[env])
+          );
+          if (values.every((value) => value !== undefined)) {
+            entry.valuesDiffer = new Set(values).size > 1;
+          }
+        }
+        return entry;
+      });
+
+      const missingKeys = Object.fromEntries(
+        environments.map((env) => [
+          env,
+          keys.filter((entry) => entry.missingIn.includes(env)).map((entry) => entry.key),
+        ])
+      );
+      const unusedKeys = keys
+        .filter((entry) => !entry.inSchema)
+        .map((entry) => entry.key);
+
+      return {
+        generatedAt: new Date().toISOString(),
+        environments,
+        keys,
+        missingKeys,
+        unusedKeys,
+        hasDrift:
+          unusedKeys.length > 0 ||
+          Object.values(missingKeys).some((missing) => missing.length > 0),
+      };
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "compareEnvironments",
+        "Failed to compare environment files"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Logs a drift report as a table, one row per key, and writes it as JSON
+   * so that CI can gate on it. Decrypted values are never part of the report.
+   *
+   * @param report - The drift report.
+   * @param reportPath - The path of the JSON report.
+   */
+  public writeDriftReport(
+    report: interfaces.EnvDriftReport,
+    reportPath: string
+  ): void {
+    try {
+      logger.info(`Environment drift:\n${this.formatDriftTable(report)}`);
+
+      fs.mkdirSync(path.dirname(reportPath), { recursive: true });
+      fs.writeFileSync(reportPath, JSON.stringify(report, null, 2), FileEncoding.UTF8);
+
+      const missingCount = Object.values(report.missingKeys).flat().length;
+      logger.info(
+        `Drift report for ${report.environments.join(", ")} written to ${reportPath}. Missing keys: ${missingCount}, unused keys: ${report.unusedKeys.length}.`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "writeDriftReport",
+        "Failed to write drift report"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Formats a drift report as a plain text table with aligned columns, one row per key.
+   *
+   * @param report - The drift report.
+   * @returns The table, one line per row.
+   */
+  private formatDriftTable(report: interfaces.EnvDriftReport): string {
+    const header = ["key", ...report.environments, "inSchema", "valuesDiffer"];
+    const rows = report.keys.map((entry) => [
+      entry.key,
+      ...report.environments.map((env) => (entry.presentIn.includes(env) ? "yes" : "MISSING")),
+      entry.inSchema ? "yes" : "UNUSED",
+      entry.valuesDiffer === undefined ? "-" : String(entry.valuesDiffer),
+    ]);
+    const widths = header.map((_, column) =>
+      Math.max(...[header, ...rows].map((row) => row[column].length))
+    );
+
+    return [header, ...rows]
+      .map((row) => row.map((cell, column) => cell.padEnd(widths[column])).join("  ").trimEnd())
+      .join("\n");
+  }
+
+  /**
+   * Returns a value as it is compared in the drift report: decrypted if it is encrypted.
+   *
+   * @param value - The value from the environment file.
+   * @param secretKey - The secret key of the environment, if supplied.
+   * @returns The comparable value, or undefined if the value is encrypted and no key was supplied.
+   */
+  private getComparableValue(
+    value: string,
+    secretKey: string | undefined
+  ): string | undefined {
+    if (!CryptoManager.isEncrypted(value)) {
+      return value;
+    }
+    return secretKey ? CryptoManager.decrypt(value, secretKey) : undefined;
+  }
+
+  // Key rotation
+
+  /**
+   * Rotates the secret key of an environment file. Every encrypted value in the file is
+   * decrypted with the current secret key and re-encrypted under a freshly generated key,
+   * which then replaces the old key in the given key provider.
+   *
+   * All values are re-encrypted in memory before anything is written, so a wrong key or a
+   * corrupted value aborts the rotation without touching the files. With the env key provider
+   * (the default), the key lives in the base environment file of this directory: both files are
+   * backed up (.bak), written to temporary files and renamed into place, and if the second rename
+   * fails the environment file is restored from its backup. With any other provider the
+   * environment file is replaced first and restored from its backup if the provider cannot store
+   * the new key. Either way, values are never left under a key that is not stored.
+   * Files that use envelope encryption are not rotated here: their values are encrypted under
+   * the data key, which is rotated with rotateDataKey, while a recipient's key is changed by
+   * adding the recipient again under the new key.
+   *
+   * @param env - The name of the environment file to rotate (e.g. ".env.uat").
+   * @param keyName - The name of the secret key (e.g. "SECRET_KEY_UAT").
+   * @param secretKey - The current secret key used to decrypt the values.
+   * @param provider - The key provider that stores the new key. Defaults to the base environment file.
+   * @returns The newly generated secret key.
+   * @throws {Error} If a value cannot be decrypted, the files cannot be written or the key cannot be stored.
+   */
+  public async rotateSecretKey(
+    env: string,
+    keyName: string,
+    secretKey: string,
+    provider?: interfaces.KeyProvider
+  ): Promise<string> {
+    try {
+      this.initializeEncryption(env, secretKey);
+      if (EnvelopeManager.parseHeader(this.readEnvFile())) {
+        errorHandler.logAndThrowError(
+          `${path.basename(this.envFilePath)} uses envelope encryption. Rotate its data key, or add the recipient again with the new key, instead of rotating the key.`
+        );
+      }
+      const newSecretKey = this.generateSecretKey();
+
+      if (!newSecretKey) {
+        errorHandler.logAndThrowError("Failed to generate new secret key");
+      }
+
+      // Re-encrypt every value in memory first, nothing is written if this fails
+      const { lines, rotatedCount } = this.reEncryptLines(
+        this.readEnvFile(),
+        newSecretKey
+      );
+      if (!provider || provider.type === "env") {
+        const baseEnvLines = EnvFileParser.setValue(
+          EnvFileParser.parse(this.readBaseEnvFile()),
+          keyName,
+          newSecretKey
+        );
+
+        this.replaceFilesAtomically(
+          EnvFileParser.serialize(lines),
+          EnvFileParser.serialize(baseEnvLines)
+        );
+      } else {
+        this.replaceEnvFileWithBackup(lines);
+        try {
+          await provider.storeKey(keyName, newSecretKey);
+        } catch (error) {
+          // Restore the environment file so its values stay under the key the provider holds
+          fs.copyFileSync(`${this.envFilePath}.bak`, this.envFilePath);
+          throw error;
+        }
+      }
+      this.secretKey = newSecretKey;
+
+      const relativePath = path.relative(process.cwd(), this.envFilePath);
+      logger.info(
+        `Key rotation complete. Re-encrypted ${rotatedCount} variable(s) in the ${relativePath} file and stored the new ${keyName} in the ${
+          provider?.type ?? "env"
+        } key provider.`
+      );
+      return newSecretKey;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "rotateSecretKey",
+        `Failed to rotate ${keyName}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts every encrypted value in the given lines with the current secret key and
+   * encrypts it again with the new secret key. Plaintext values, comments and empty
+   * lines are kept unchanged.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @param newSecretKey - The secret key used to re-encrypt the values.
+   * @returns The re-encrypted lines and the number of values that were re-encrypted.
+   * @throws {Error} If a value cannot be decrypted with the current secret key.
+   */
+  private reEncryptLines(
+    lines: interfaces.EnvFileLine[],
+    newSecretKey: string
+  ): { lines: interfaces.EnvFileLine[]; rotatedCount: number } {
+    let rotatedCount = 0;
+
+    const rotatedLines = lines.map((line) => {
+      if (line.type !== "entry" || !CryptoManager.isEncrypted(line.value)) {
+        return line;
+      }
+
+      const plainText = CryptoManager.decrypt(line.value!, this.secretKey);
+      rotatedCount++;
+      return EnvFileParser.withValue(
+        line,
+        JSON.stringify(CryptoManager.encrypt(plainText, newSecretKey))
+      );
+    });
+
+    return { lines: rotatedLines, rotatedCount };
+  }
+
+  // Envelope encryption
+
+  /**
+   * Converts an environment file to envelope encryption. A random data key is generated and
+   * wrapped under the given secret key for the first recipient, and every encrypted value is
+   * re-encrypted under the data key. The header is written at the top of the file and the
+   * original file is kept as a .bak backup.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param secretKey - The current secret key of the file, which becomes the key of the first recipient.
+   * @param recipientId - The name of the first recipient.
+   * @returns The number of values that were re-encrypted under the data key.
+   * @throws {Error} If the file already uses envelope encryption or a value cannot be decrypted.
+   */
+  public enableEnvelopeEncryption(
+    env: string,
+    secretKey: string,
+    recipientId: string
+  ): number {
+    try {
+      this.initializeEncryption(env, secretKey);
+      const envLines = this.readEnvFile();
+      if (EnvelopeManager.parseHeader(envLines)) {
+        errorHandler.logAndThrowError(
+          `${path.basename(this.envFilePath)} already uses envelope encryption`
+        );
+      }
+
+      const { dataKey, header } = EnvelopeManager.createHeader(recipientId, this.secretKey);
+      const { lines, rotatedCount } = this.reEncryptLines(envLines, dataKey);
+      this.replaceEnvFileWithBackup(EnvelopeManager.setHeader(lines, header));
+      this.secretKey = dataKey;
+
+      logger.info(
+        `Envelope encryption enabled for the ${path.basename(
+          this.envFilePath
+        )} file with recipient '${recipientId}'. Re-encrypted ${rotatedCount} variable(s) under the data key.`
+      );
+      return rotatedCount;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "enableEnvelopeEncryption",
+        "Failed to enable envelope encryption"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Adds a recipient to an environment file that uses envelope encryption. The data key is
+   * unwrapped with the secret key of an existing recipient and wrapped under the key of the
+   * new recipient; the encrypted values are not changed.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param secretKey - The secret key of an existing recipient.
+   * @param recipientId - The name of the new recipient.
+   * @param recipientKey - The secret key of the new recipient.
+   * @throws {Error} If the file does not use envelope encryption or the secret key is not a recipient.
+   */
+  public addRecipient(
+    env: string,
+    secretKey: string,
+    recipientId: string,
+    recipientKey: string
+  ): void {
+    try {
+      this.initializeEncryption(env, secretKey);
+      const lines = this.readEnvFile();
+      const header = this.getEnvelopeHeader(lines);
+
+      this.replaceEnvFileWithBackup(
+        EnvelopeManager.setHeader(
+          lines,
+          EnvelopeManager.addRecipient(header, this.secretKey, recipientId, this.getSecretKey(recipientKey))
+        )
+      );
+      logger.info(
+        `Recipient '${recipientId}' added to the ${path.basename(this.envFilePath)} file`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "addRecipient",
+        `Failed to add recipient '${recipientId}'`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Removes a recipient from an environment file that uses envelope encryption.
+   *
+   * Without a rotation only the wrapped data key of the recipient is removed. The data key
+   * itself is unchanged, so a removed recipient who ever unwrapped it can still decrypt every
+   * value of the file, including values encrypted after the removal. Pass a rotation to also
+   * replace the data key, which is what offboarding someone requires.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param recipientId - The name of the recipient to remove.
+   * @param rotation - The secret keys used to rotate the data key for the remaining recipients.
+   * @returns The number of values that were re-encrypted under a new data key.
+   * @throws {Error} If the file does not use envelope encryption, the recipient does not exist or is the last one.
+   */
+  public removeRecipient(
+    env: string,
+    recipientId: string,
+    rotation?: interfaces.DataKeyRotation
+  ): number {
+    try {
+      if (rotation) {
+        this.initializeEncryption(env, rotation.secretKey);
+      } else {
+        this.envFilePath = path.resolve(this.envDirPath, env);
+      }
+      const lines = this.readEnvFile();
+      const header = EnvelopeManager.removeRecipient(this.getEnvelopeHeader(lines), recipientId);
+
+      if (!rotation) {
+        this.replaceEnvFileWithBackup(EnvelopeManager.setHeader(lines, header));
+        logger.warn(
+          `Recipient '${recipientId}' removed from the ${path.basename(
+            this.envFilePath
+          )} file without rotating the data key. Rotate it if the recipient must lose access.`
+        );
+        return 0;
+      }
+
+      const rotatedCount = this.replaceDataKey(lines, header, rotation);
+      logger.info(
+        `Recipient '${recipientId}' removed from the ${path.basename(
+          this.envFilePath
+        )} file and the data key rotated. Re-encrypted ${rotatedCount} variable(s).`
+      );
+      return rotatedCount;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "removeRecipient",
+        `Failed to remove recipient '${recipientId}'`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Rotates the data key of an environment file that uses envelope encryption. A new data key
+   * is generated, every encrypted value is re-encrypted under it and it is wrapped for every
+   * recipient. The recipients keep their own secret keys.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @param rotation - The secret key of a recipient and the secret keys of the other recipients.
+   * @returns The number of values that were re-encrypted.
+   * @throws {Error} If the file does not use envelope encryption or the key of a recipient is missing or wrong.
+   */
+  public rotateDataKey(env: string, rotation: interfaces.DataKeyRotation): number {
+    try {
+      this.initializeEncryption(env, rotation.secretKey);
+      const lines = this.readEnvFile();
+      const rotatedCount = this.replaceDataKey(lines, this.getEnvelopeHeader(lines), rotation);
+
+      logger.info(
+        `Data key of the ${path.basename(
+          this.envFilePath
+        )} file rotated. Re-encrypted ${rotatedCount} variable(s).`
+      );
+      return rotatedCount;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "rotateDataKey",
+        "Failed to rotate data key"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the names of the recipients of an environment file that uses envelope encryption.
+   *
+   * @param env - The name of the environment file (e.g. ".env.uat").
+   * @returns The names of the recipients.
+   * @throws {Error} If the file does not use envelope encryption.
+   */
+  public listRecipients(env: string): string[] {
+    try {
+      this.envFilePath = path.resolve(this.envDirPath, env);
+      return this.getEnvelopeHeader(this.readEnvFile()).recipients.map(({ id }) => id);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "listRecipients",
+        "Failed to list recipients"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Re-encrypts the values of the current environment file under a new data key, wraps it for
+   * the recipients of the given header and writes the file with a .bak backup. The values are
+   * decrypted with the current data key, so the encryption must be initialized first. The key
+   * of the rotating recipient is used for their own entry while they remain a recipient.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @param header - The envelope header holding the recipients that keep access.
+   * @param rotation - The secret keys of the recipients.
+   * @returns The number of values that were re-encrypted.
+   * @throws {Error} If the key of a recipient is missing or wrong, or a value cannot be decrypted.
+   */
+  private replaceDataKey(
+    lines: interfaces.EnvFileLine[],
+    header: interfaces.EnvelopeHeader,
+    rotation: interfaces.DataKeyRotation
+  ): number {
+    const ownRecipient = EnvelopeManager.findRecipient(header, rotation.secretKey);
+    const { dataKey, header: rotatedHeader } = EnvelopeManager.rotateDataKey(header, {
+      ...(ownRecipient && { [ownRecipient.id]: rotation.secretKey }),
+      ...rotation.recipientKeys,
+    });
+
+    const { lines: rotatedLines, rotatedCount } = this.reEncryptLines(lines, dataKey);
+    this.replaceEnvFileWithBackup(EnvelopeManager.setHeader(rotatedLines, rotatedHeader));
+    this.secretKey = dataKey;
+    return rotatedCount;
+  }
+
+  /**
+   * Returns the envelope header of the current environment file.
+   *
+   * @param lines - The parsed lines of the environment file.
+   * @returns The envelope header.
+   * @throws {Error} If the file does not use envelope encryption.
+   */
+  private getEnvelopeHeader(lines: interfaces.EnvFileLine[]): interfaces.EnvelopeHeader {
+    const header = EnvelopeManager.parseHeader(lines);
+    if (!header) {
+      return errorHandler.logAndThrowError(
+        `${path.basename(this.envFilePath)} does not use envelope encryption. Enable it first.`
+      );
+    }
+    return header;
+  }
+
+  /**
+   * Copies the environment file to a .bak backup and replaces it with the given lines
+   * through a temporary file.
+   *
+   * @param lines - The new lines of the environment file.
+   * @throws {Error} If the file cannot be backed up, written or renamed.
+   */
+  private replaceEnvFileWithBackup(lines: interfaces.EnvFileLine[]): void {
+    const tempPath = `${this.envFilePath}.tmp`;
+    try {
+      fs.copyFileSync(this.envFilePath, `${this.envFilePath}.bak`);
+      fs.writeFileSync(tempPath, EnvFileParser.serialize(lines), FileEncoding.UTF8);
+      fs.renameSync(tempPath, this.envFilePath);
+    } catch (error) {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+      errorHandler.logGeneralError(
+        error,
+        "replaceEnvFileWithBackup",
+        "Failed to replace environment file"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces the environment file and the base environment file with new content.
+   * Both files are first copied to .bak backups and the new content is written to .tmp
+   * files, which are then renamed over the originals. If the base environment file cannot
+   * be replaced, the environment file is restored from its backup.
+   *
+   * @param envContent - The new content of the environment file.
+   * @param baseEnvContent - The new content of the base environment file.
+   * @throws {Error} If the files cannot be backed up, written or renamed.
+   */
+  private replaceFilesAtomically(
+    envContent: string,
+    baseEnvContent: string
+  ): void {
+    const envBackupPath = `${this.envFilePath}.bak`;
+    const baseEnvBackupPath = `${this.baseEnvFilePath}.bak`;
+    const envTempPath = `${this.envFilePath}.tmp`;
+    const baseEnvTempPath = `${this.baseEnvFilePath}.tmp`;
+
+    try {
+      fs.copyFileSync(this.envFilePath, envBackupPath);
+      fs.copyFileSync(this.baseEnvFilePath, baseEnvBackupPath);
+
+      fs.writeFileSync(envTempPath, envContent, FileEncoding.UTF8);
+      fs.writeFileSync(baseEnvTempPath, baseEnvContent, FileEncoding.UTF8);
+
+      fs.renameSync(envTempPath, this.envFilePath);
+      try {
+        fs.renameSync(baseEnvTempPath, this.baseEnvFilePath);
+      } catch (error) {
+        // Restore the environment file so its values stay under the old key
+        fs.copyFileSync(envBackupPath, this.envFilePath);
+        throw error;
+      }
+
+      logger.info(
+        `Backups written to ${path.relative(
+          process.cwd(),
+          envBackupPath
+        )} and ${path.relative(process.cwd(), baseEnvBackupPath)}`
+      );
+    } catch (error) {
+      [envTempPath, baseEnvTempPath]
+        .filter((tempPath) => fs.existsSync(tempPath))
+        .forEach((tempPath) => fs.unlinkSync(tempPath));
+
+      errorHandler.logGeneralError(
+        error,
+        "replaceFilesAtomically",
+        "Failed to replace environment files"
+      );
+      throw error;
+    }
+  }
+
   /**
    * Retrieves the secret key for encryption/decryption processes.
    *
@@ -334,19 +1167,20 @@ export default class EnvironmentManager {
   }
 
   /**
-   * Reads the contents of the environment file as an array of strings.
-   * Each string is a line from the file, and the array is returned in the order
-   * that the lines appear in the file.
+   * Reads the environment file and parses it into lines using the dotenv rules.
+   * The lines are returned in the order that they appear in the file.
    *
    * If the file does not exist or cannot be read, the function logs an error
    * and throws an exception.
    *
-   * @returns An array of strings, each string representing a line from the file.
+   * @returns The parsed lines of the file.
    * @throws {Error} If the file does not exist or cannot be read.
    */
-  private readEnvFileAsLines(): string[] {
+  private readEnvFile(): interfaces.EnvFileLine[] {
     try {
-      return fs.readFileSync(this.envFilePath, FileEncoding.UTF8).split("\n");
+      return EnvFileParser.parse(
+        fs.readFileSync(this.envFilePath, FileEncoding.UTF8)
+      );
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -358,17 +1192,21 @@ export default class EnvironmentManager {
   }
 
   /**
-   * Writes an array of strings to the environment file.
-   * Each string in the array represents a line to be written.
+   * Serializes the parsed lines and writes them to the environment file.
+   * Lines that were not changed are written exactly as they were read.
    *
    * If an error occurs during writing, it logs the error and throws an exception.
    *
-   * @param lines - The array of strings to write to the environment file.
+   * @param lines - The parsed lines to write to the environment file.
    * @throws {Error} If an error occurs during file writing.
    */
-  private writeEnvFileLines(lines: string[]): void {
+  private writeEnvFile(lines: interfaces.EnvFileLine[]): void {
     try {
-      fs.writeFileSync(this.envFilePath, lines.join("\n"), FileEncoding.UTF8);
+      fs.writeFileSync(
+        this.envFilePath,
+        EnvFileParser.serialize(lines),
+        FileEncoding.UTF8
+      );
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -380,26 +1218,35 @@ export default class EnvironmentManager {
   }
 
   /**
-   * Logs a success message with the number of encrypted variables to the console.
+   * Logs a summary of the encryption run to the console.
    * This method is called after the encryption process is complete.
    *
-   * @param originalCount - The total number of variables in the environment file.
-   * @param encryptedCount - The number of variables that were successfully encrypted.
+   * @param summary - The keys that were encrypted, ignored because they are not secrets,
+   * skipped because they were already
+   * encrypted under the current key, and rejected because they did not verify.
    */
-  private logEncryptionSuccess(
-    originalCount: number,
-    encryptedCount: number
-  ): void {
+  private logEncryptionSummary(summary: interfaces.EncryptionSummary): void {
     try {
       const relativePath = path.relative(process.cwd(), this.envFilePath);
+      const formatKeys = (keys: string[]) =>
+        keys.length > 0 ? ` (${keys.join(", ")})` : "";
+
       logger.info(
-        `Encryption complete. Successfully encrypted ${encryptedCount} variable(s) in the ${relativePath} file.`
+        `Encryption complete for the ${relativePath} file. Encrypted: ${
+          summary.encrypted.length
+        }${formatKeys(summary.encrypted)}, not secret: ${
+          summary.ignored.length
+        }${formatKeys(summary.ignored)}, skipped (already encrypted): ${
+          summary.skipped.length
+        }${formatKeys(summary.skipped)}, rejected: ${
+          summary.rejected.length
+        }${formatKeys(summary.rejected)}.`
       );
     } catch (error) {
       errorHandler.logGeneralError(
         error,
-        "logEncryptionSuccess",
-        "Failed to log encryption success"
+        "logEncryptionSummary",
+        "Failed to log encryption summary"
       );
       throw error;
     }
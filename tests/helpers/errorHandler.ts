@@ -1,6 +1,7 @@
 import logger from "../utils/loggerUtil";
 import axios, { AxiosResponse } from "axios";
 import DatabaseErrorTypes from "./databaseErrorTypes";
+import { CryptoError, MalformedCiphertextError } from "./cryptoErrorTypes";
 
 export default class ErrorHandler {
   /**
@@ -291,30 +292,51 @@ export default class ErrorHandler {
     }
   }
 
-   /**
-   * Logs an error message and throws an error if the cipherText is undefined or empty.
+  // Crypto error handling
+
+  /**
+   * Logs the message of a crypto error and throws it, so callers can catch the specific error type.
    *
+   * @param error - The crypto error to log and throw.
    * @returns Never, as this function will always throw an error.
    */
-   public static handleUndefinedCipherText(): never {
-    return this.logAndThrowError("cipherText is undefined or empty.");
+  public static logAndThrowCryptoError(error: CryptoError): never {
+    logger.error(`${error.name}: ${error.message}`);
+    throw error;
   }
 
-/**
- * Logs an error message and throws an error indicating that the cipher text format is invalid.
- *
- * The expected format for the cipher text is "salt:iv:encrypted".
- *
- * @returns Never, as this function will always throw an error.
- */
-  public static handleInvalidCipherFormat(): never {
-    return this.logAndThrowError(
-      "Invalid cipherText format. Expected format: salt:iv:encrypted."
+  /**
+   * Logs an error message and throws a MalformedCiphertextError if the cipherText is undefined or empty.
+   *
+   * @returns Never, as this function will always throw an error.
+   */
+  public static handleUndefinedCipherText(): never {
+    return this.logAndThrowCryptoError(
+      new MalformedCiphertextError("cipherText is undefined or empty.")
+    );
+  }
+
+  /**
+   * Logs an error message and throws a MalformedCiphertextError indicating that the cipher text
+   * format is invalid.
+   *
+   * The expected format is the JSON encrypted data containing the salt, iv, cipherText and mac.
+   *
+   * @param reason - The reason the format is invalid. Optional
+   * @returns Never, as this function will always throw an error.
+   */
+  public static handleInvalidCipherFormat(reason?: string): never {
+    return this.logAndThrowCryptoError(
+      new MalformedCiphertextError(
+        `Invalid cipherText format. Expected JSON encrypted data with salt, iv, cipherText and mac${
+          reason ? `: ${reason}` : "."
+        }`
+      )
     );
   }
 
   /**
-   * Logs an error message indicating that decryption failed and throws an error.
+   * Logs an error message indicating that decryption failed and throws a MalformedCiphertextError.
    *
    * The error message will indicate that the decryption failed due to an invalid
    * key or ciphertext.
@@ -322,8 +344,8 @@ export default class ErrorHandler {
    * @returns Never, as this function will always throw an error.
    */
   public static handleDecryptionFailure(): never {
-    return this.logAndThrowError(
-      "Decryption failed. Invalid key or ciphertext."
+    return this.logAndThrowCryptoError(
+      new MalformedCiphertextError("Decryption failed. Invalid key or ciphertext.")
     );
   }
 
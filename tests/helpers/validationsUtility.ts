@@ -1,6 +1,10 @@
 import { AxiosResponse } from "axios";
 import errorHandler from "./errorHandler";
 import logger from "../utils/loggerUtil";
+import SchemaValidator from "../utils/schemaValidator";
+import OpenApiContract from "../apiTests/core/openApiContract";
+import * as interfaces from "../models/interfaces";
+import * as appSettings from "../config/appSettings.json";
 
 class ValidationsUtility {
   /**
@@ -142,6 +146,99 @@ class ValidationsUtility {
     );
   }
 
+  /**
+   * Validates the body of a response against a JSON Schema. Every mismatch is reported with the
+   * path of the offending value, e.g. "$.items[3].price: expected number, received string".
+   *
+   * @param response - The received response object.
+   * @param schema - The JSON Schema of the response body.
+   * @param methodName - The name of the method where the error occurred.
+   * @param rootDocument - The document that references in the schema are resolved against,
+   *                       e.g. an OpenAPI document. Defaults to the schema itself.
+   * @throws {ValidationError} If the response body does not match the schema.
+   */
+  public validateResponseSchema(
+    response: AxiosResponse,
+    schema: interfaces.JsonSchema,
+    methodName: string,
+    rootDocument?: object
+  ): void {
+    const issues = SchemaValidator.validate(response.data, schema, rootDocument);
+    this.reportSchemaIssues(issues, `Response body with status ${response.status}`, methodName);
+  }
+
+  /**
+   * Validates the body of a response against the response definition of its operation and status
+   * code in an OpenAPI document. The operation is found by the method and URL of the request.
+   * Responses documented without a body are not checked.
+   *
+   * @param response - The received response object.
+   * @param methodName - The name of the method where the error occurred.
+   * @param contract - The OpenAPI contract. Defaults to the document at API_CONTRACTS.openApiPath.
+   * @throws {ValidationError} If the response body does not match its documented schema.
+   * @throws {Error} If the operation or the status code is not documented.
+   */
+  public validateResponseContract(
+    response: AxiosResponse,
+    methodName: string,
+    contract: OpenApiContract = this.getDefaultContract()
+  ): void {
+    const metadata = (response as Partial<interfaces.HttpResponse>).metadata;
+    const method = metadata?.method ?? response.config?.method ?? "GET";
+    const url = metadata?.url ?? response.config?.url ?? "/";
+    const operation = `${method.toUpperCase()} ${contract.findPath(url) ?? url}`;
+
+    const schema = contract.getResponseSchema(method, url, response.status);
+    if (!schema) {
+      this.logInfo(`No response body is documented for ${operation} (${response.status}).`);
+      return;
+    }
+
+    const issues = SchemaValidator.validate(response.data, schema, contract.document);
+    this.reportSchemaIssues(
+      issues,
+      `Response body of ${operation} (${response.status})`,
+      methodName
+    );
+  }
+
+  /**
+   * Logs a success message if no schema mismatches were found, otherwise logs and throws them.
+   *
+   * @param issues - The schema mismatches.
+   * @param subject - The validated value, used in the messages.
+   * @param methodName - The name of the method where the error occurred.
+   * @throws {ValidationError} If there are mismatches.
+   */
+  private reportSchemaIssues(
+    issues: interfaces.SchemaValidationIssue[],
+    subject: string,
+    methodName: string
+  ): void {
+    if (issues.length === 0) {
+      this.logInfo(`Validation successful: ${subject} matches its schema.`);
+      return;
+    }
+
+    const problems = SchemaValidator.formatIssues(
+      issues,
+      appSettings.API_CONTRACTS.maxReportedIssues
+    );
+    const errorMessage = `${subject} does not match its schema in method [${methodName}]:\n${problems}`;
+    this.logError(errorMessage);
+    throw new ValidationError(errorMessage);
+  }
+
+  private getDefaultContract(): OpenApiContract {
+    const openApiPath = appSettings.API_CONTRACTS.openApiPath;
+    if (!openApiPath) {
+      errorHandler.logAndThrowError(
+        "No OpenAPI document is configured, set API_CONTRACTS.openApiPath in appSettings.json."
+      );
+    }
+    return OpenApiContract.fromFile(openApiPath);
+  }
+
   /**
    * Logs a message as an info level log event.
    *
@@ -161,7 +258,7 @@ class ValidationsUtility {
   }
 }
 
-class ValidationError extends Error {
+export class ValidationError extends Error {
   constructor(message: string) {
     super(message);
     this.name = "ValidationError";
@@ -7,10 +7,12 @@ export enum Environments {
   SECRET_KEY_DEV = "SECRET_KEY_DEV",
   SECRET_KEY_UAT = "SECRET_KEY_UAT",
   SECRET_KEY_PROD = "SECRET_KEY_PROD",
+  ENV_FILE_PREFIX = ".env.",
+  SECRET_KEY_PREFIX = "SECRET_KEY_",
 }
 
 export const ENV_FILES = {
   dev: Environments.DEV_ENV_FILE,
   uat: Environments.UAT_ENV_FILE,
   prod: Environments.PROD_ENV_FILE,
-};
\ No newline at end of file
+};
@@ -1,6 +1,410 @@
+import { AxiosResponse, ResponseType } from "axios";
+import { CipherAlgorithm, HttpMethod, OtpAlgorithm } from "./utilityEnums";
+
+// Version 0: AES-256-CBC with an HMAC keyed by the encryption key, stored without a version
 export interface EncryptionParams {
   salt: string;
   iv: string;
   cipherText: string;
   mac: string;
-}
\ No newline at end of file
+}
+
+// Version 1 and later: AES-256-GCM with separately derived encryption and MAC keys
+export interface EncryptionEnvelope extends EncryptionParams {
+  v: number;
+  alg: CipherAlgorithm;
+  kdf: string; // name of a registered key derivation function, e.g. "scrypt"
+  iter?: number; // PBKDF2-SHA256 iterations, version 1 only
+  kdfParams?: KdfParams; // key derivation parameters, from version 2
+  tag: string; // GCM authentication tag
+  kcv?: string; // key check value, identifies the secret key without revealing it
+}
+
+export type KdfParams = Record<string, number>;
+
+export interface KeyDerivationStrategy {
+  requiredParams: string[]; // parameters every value must carry, as positive integers
+  maxParams?: KdfParams; // upper bounds, so a value with tampered parameters cannot stall decryption
+  derive(
+    secretKey: string,
+    salt: Buffer,
+    keyLength: number,
+    params: KdfParams
+  ): Buffer;
+}
+
+export interface DerivedKeys {
+  encryptionKey: Buffer;
+  macKey: Buffer;
+}
+
+export interface EncryptionOptions {
+  include?: string[]; // key patterns to encrypt, "*" matches any characters
+  exclude?: string[]; // key patterns never to encrypt, takes precedence over include
+}
+
+export interface EncryptionSummary {
+  encrypted: string[]; // keys encrypted in this run
+  ignored: string[]; // plaintext keys that are not secrets and were left unchanged
+  skipped: string[]; // keys already encrypted under the current secret key
+  rejected: string[]; // keys encrypted under another key or tampered with, left unchanged
+}
+
+export type EnvLineType = "blank" | "comment" | "entry" | "invalid";
+
+export type EnvQuote = "" | '"' | "'" | "`";
+
+export interface EnvFileLine {
+  type: EnvLineType;
+  raw: string; // original text including the line terminator, may span several lines
+  lineNumber: number; // 1-based number of the first physical line
+  key?: string;
+  value?: string; // unquoted value as dotenv reads it
+  exported?: boolean; // the definition has an "export " prefix
+  quote?: EnvQuote;
+  inlineComment?: string; // comment after the value, including the "#"
+}
+
+export type EnvVariableType = "string" | "url" | "int" | "bool" | "enum";
+
+export interface EnvVariableDefinition {
+  type: EnvVariableType;
+  required: boolean;
+  default?: string;
+  values?: string[]; // allowed values when type is "enum"
+  encrypted?: boolean; // the value must be stored encrypted in the environment file
+  description?: string;
+}
+
+export type EnvSchema = Record<string, EnvVariableDefinition>;
+
+export interface EnvironmentDefinition {
+  extends?: string[]; // environments whose files are loaded before this one, in order
+}
+
+// "files": environment files override variables already set in the shell,
+// "process": variables already set in the shell win over the environment files
+export type EnvPrecedence = "files" | "process";
+
+export interface EnvValueSource {
+  source: string; // the file the effective value was loaded from, or "process.env"
+  layer?: string; // the environment whose secret key decrypts the value
+}
+
+export interface EnvDriftEntry {
+  key: string;
+  presentIn: string[];
+  missingIn: string[];
+  inSchema: boolean; // the key is declared in the environment schema and read through ENV
+  valuesDiffer?: boolean; // only set when secret keys were supplied to compare values
+}
+
+export interface EnvDriftReport {
+  generatedAt: string;
+  environments: string[];
+  keys: EnvDriftEntry[];
+  missingKeys: Record<string, string[]>; // keys missing per environment
+  unusedKeys: string[]; // keys present in a file but not declared in the schema
+  hasDrift: boolean;
+}
+
+// Header line of an encrypted file, authenticated as additional data by the GCM tag
+export interface EncryptedFileHeader {
+  v: number;
+  alg: CipherAlgorithm;
+  kdf: string;
+  kdfParams: KdfParams;
+  salt: string;
+  iv: string;
+  kcv: string; // key check value, identifies the secret key without revealing it
+  fileName: string; // name of the original file
+}
+
+export interface EncryptedArtifact {
+  name: string; // file name of the decrypted copy in the artifacts directory
+  source: string; // path of the encrypted .enc file, relative to the project root
+  envVar?: string; // variable set to the path of the decrypted copy, e.g. STORAGE_STATE_PATH
+}
+
+export type KeyProviderType = "env" | "file" | "command" | "azure-key-vault";
+
+// Source of the secret keys (e.g. SECRET_KEY_UAT) that encrypt the environment files
+export interface KeyProvider {
+  readonly type: KeyProviderType;
+  getKey(keyName: string): Promise<string | undefined>;
+  storeKey(keyName: string, secretKey: string): Promise<void>;
+}
+
+// The data key of an environment file, wrapped under the secret key of one recipient
+export interface EnvelopeRecipient {
+  id: string; // e.g. the name of the engineer or the CI pipeline
+  wrappedKey: EncryptionEnvelope;
+}
+
+// Header of an environment file whose values are encrypted under a shared data key
+export interface EnvelopeHeader {
+  v: number;
+  recipients: EnvelopeRecipient[];
+}
+
+// Secret keys needed to rotate the data key of an environment file
+export interface DataKeyRotation {
+  secretKey: string; // the key of the recipient performing the rotation
+  recipientKeys?: Record<string, string>; // the keys of the other remaining recipients, by name
+}
+
+export interface TotpOptions {
+  algorithm?: OtpAlgorithm; // defaults to SHA1, which authenticator apps use
+  digits?: number; // defaults to 6
+  period?: number; // seconds, defaults to 30
+  timestamp?: number; // milliseconds since the epoch, defaults to now
+}
+
+export type QueryValue = string | number | boolean | Date | null | undefined;
+
+// Query parameters of a request; arrays repeat the key and null or undefined values are left out
+export type QueryParams = Record<string, QueryValue | QueryValue[]>;
+
+export interface HttpRequestOptions {
+  method: HttpMethod;
+  url: string;
+  query?: QueryParams;
+  body?: unknown; // serialized as JSON, set a Content-Type header to send another format
+  headers?: Record<string, string>; // merged over the default headers
+  timeout?: number; // milliseconds, defaults to no timeout
+  responseType?: ResponseType; // defaults to json
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>; // merged over the retry policy of the client
+  skipAuth?: boolean; // send without the auth provider of the client, e.g. for health checks
+}
+
+export interface HttpRequestMetadata {
+  method: HttpMethod;
+  url: string; // final URL, after query serialization and redirects
+  startedAt: string; // ISO timestamp
+  durationMs: number; // of all attempts, including the delays between them
+  attempts: number;
+}
+
+export interface HttpResponse<T = unknown> extends AxiosResponse<T> {
+  metadata: HttpRequestMetadata;
+}
+
+// Request received by the mock API server
+export interface MockApiRequest {
+  method: string;
+  url: string; // path and query as sent
+  path: string;
+  query: Record<string, string[]>;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+// Response the mock API server sends for a route, JSON encoded unless the body is a string
+export interface MockApiResponse {
+  status?: number; // defaults to 200
+  headers?: Record<string, string>;
+  body?: unknown;
+  delayMs?: number;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first request, 1 disables retries
+  baseDelayMs: number; // delay before the first retry, doubled on every further retry
+  maxDelayMs: number; // upper bound of a delay, also for Retry-After
+  jitter: boolean; // randomizes each delay between half and all of it
+  retryableStatusCodes: number[];
+  retryableErrorCodes: string[]; // network error codes, e.g. ECONNRESET
+  retryNonIdempotent: boolean; // also retry POST and PATCH, which may apply twice
+}
+
+export type AuthProviderType = "bearer" | "basic" | "api-key" | "oauth2-client-credentials" | "azure";
+
+// Authenticates the requests of an API client
+export interface AuthProvider {
+  readonly type: AuthProviderType;
+  authenticate(request: HttpRequestOptions): Promise<HttpRequestOptions>;
+  invalidate?(): void; // drops a cached token, so the next request gets a new one
+}
+
+export interface AccessToken {
+  token: string;
+  tokenType: string; // e.g. Bearer
+  expiresAt?: number; // milliseconds since the epoch, undefined if the token does not expire
+}
+
+export interface OAuth2ClientCredentialsOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  audience?: string; // required by some providers, e.g. Auth0
+  credentialsInBody?: boolean; // send the client credentials as form fields instead of basic auth
+}
+
+// Hooks of an API client, run on every exchange after authentication: request hooks in the
+// order the interceptors were added, response and error hooks in reverse order
+export interface HttpInterceptor {
+  readonly name: string;
+  onRequest?(request: HttpRequestOptions): HttpRequestOptions | Promise<HttpRequestOptions>;
+  onResponse?(
+    response: HttpResponse,
+    request: HttpRequestOptions
+  ): HttpResponse | Promise<HttpResponse>;
+  onError?(
+    error: unknown,
+    request: HttpRequestOptions,
+    metadata: HttpRequestMetadata
+  ): void | Promise<void>;
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+// Entry of an HTTP Archive (HAR 1.2), with the fields the API recorder fills in
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number; // 0 when no response was received
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _attempts: number;
+  _error?: string; // message of the error when no response was received
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface RouteDefinition {
+  path: string; // relative to the API base URL, with parameters as ":name", e.g. /users/:id
+  version?: string | null; // prefix, e.g. v2; null for none; defaults to API_ROUTES.defaultVersion
+}
+
+type LowercaseLetter =
+  | "a" | "b" | "c" | "d" | "e" | "f" | "g" | "h" | "i" | "j" | "k" | "l" | "m"
+  | "n" | "o" | "p" | "q" | "r" | "s" | "t" | "u" | "v" | "w" | "x" | "y" | "z";
+type ParamNameStart = LowercaseLetter | Uppercase<LowercaseLetter> | "_";
+type ParamNameChar = ParamNameStart | "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+
+// The rest of a parameter name: the leading [A-Za-z0-9_] characters of S
+type ParamNameTail<S extends string> = S extends `${infer Char}${infer Rest}`
+  ? Char extends ParamNameChar
+    ? `${Char}${ParamNameTail<Rest>}`
+    : ""
+  : "";
+
+// The parameter name at the start of S, matching the [A-Za-z_][A-Za-z0-9_]* names of BaseRoutes.buildPath
+type ParamName<S extends string> = S extends `${infer Char}${infer Rest}`
+  ? Char extends ParamNameStart
+    ? `${Char}${ParamNameTail<Rest>}`
+    : never
+  : never;
+
+// Names of the ":name" parameters of a route path, e.g. "id" | "orderId" for /users/:id/orders/:orderId.
+// A name ends at the first other character, so /files/:name.json has the parameter "name".
+export type PathParamNames<P extends string> = P extends `${string}:${infer Rest}`
+  ? ParamName<Rest> | PathParamNames<Rest>
+  : never;
+
+export type PathParams<P extends string> = { [K in PathParamNames<P>]: string | number };
+
+export interface RouteOptions<P extends string> {
+  params: PathParams<P>;
+  query?: QueryParams;
+}
+
+// URL builder of a route; the options can be left out when the path has no parameters
+export type RouteBuilder<P extends string> = (
+  ...args: [PathParamNames<P>] extends [never]
+    ? [options?: Partial<RouteOptions<P>>]
+    : [options: RouteOptions<P>]
+) => string;
+
+export type RouteBuilders<T extends Record<string, RouteDefinition>> = {
+  [K in keyof T]: RouteBuilder<T[K]["path"]>;
+};
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+// The subset of JSON Schema, including the OpenAPI 3.0 dialect, checked by SchemaValidator
+export interface JsonSchema {
+  $ref?: string; // local reference, e.g. #/components/schemas/Item
+  type?: JsonSchemaType | JsonSchemaType[];
+  nullable?: boolean; // OpenAPI 3.0 spelling of type: [..., "null"]
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string; // date-time, date, email, uuid and uri are checked, others are ignored
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number | boolean; // boolean in OpenAPI 3.0, number in JSON Schema
+  exclusiveMaximum?: number | boolean;
+  multipleOf?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+}
+
+export interface SchemaValidationIssue {
+  path: string; // e.g. $.items[3].price
+  message: string; // e.g. expected number, received string
+}
+
+export interface OpenApiResponse {
+  $ref?: string; // e.g. #/components/responses/NotFound
+  description?: string;
+  content?: Record<string, { schema?: JsonSchema }>;
+  schema?: JsonSchema; // Swagger 2.0
+}
+
+export interface OpenApiOperation {
+  operationId?: string;
+  responses: Record<string, OpenApiResponse>; // keyed by status, e.g. 200, 4XX or default
+}
+
+export interface OpenApiDocument {
+  openapi?: string;
+  swagger?: string;
+  paths: Record<string, Record<string, OpenApiOperation>>; // keyed by path template, then method
+  components?: {
+    schemas?: Record<string, JsonSchema>;
+    responses?: Record<string, OpenApiResponse>;
+  };
+  definitions?: Record<string, JsonSchema>; // Swagger 2.0
+}
@@ -2,3 +2,28 @@ export enum FileEncoding {
   UTF8 = "utf8",
   BASE64 = "base64",
 }
+
+export enum CipherAlgorithm {
+  AES_256_GCM = "aes-256-gcm",
+}
+
+export enum KeyDerivationFunction {
+  PBKDF2_SHA256 = "pbkdf2-sha256",
+  SCRYPT = "scrypt",
+}
+
+export enum OtpAlgorithm {
+  SHA1 = "sha1",
+  SHA256 = "sha256",
+  SHA512 = "sha512",
+}
+
+export enum HttpMethod {
+  GET = "GET",
+  POST = "POST",
+  PUT = "PUT",
+  PATCH = "PATCH",
+  DELETE = "DELETE",
+  HEAD = "HEAD",
+  OPTIONS = "OPTIONS",
+}
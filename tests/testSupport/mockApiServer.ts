@@ -0,0 +1,120 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as interfaces from "../models/interfaces";
+
+type MockRoute = (
+  request: interfaces.MockApiRequest
+) => interfaces.MockApiResponse | Promise<interfaces.MockApiResponse>;
+
+/**
+ * A local HTTP server for testing the API client without a real API. It records every request
+ * and answers with the response of the matching route, or echoes the request back as JSON
+ * when no route matches.
+ */
+export default class MockApiServer {
+  public readonly requests: interfaces.MockApiRequest[] = [];
+
+  private readonly routes = new Map<string, MockRoute>();
+
+  private server?: http.Server;
+
+  private baseUrl = "";
+
+  /**
+   * Registers the response of a route, replacing any earlier one.
+   *
+   * @param method - The HTTP method, e.g. "GET".
+   * @param path - The path, without the query.
+   * @param handler - Returns the response for a request.
+   * @returns The server, so routes can be chained.
+   */
+  public route(method: string, path: string, handler: MockRoute): this {
+    this.routes.set(`${method.toUpperCase()} ${path}`, handler);
+    return this;
+  }
+
+  /**
+   * Returns the URL of a path on the server.
+   *
+   * @param path - The path, e.g. "/users".
+   * @returns The absolute URL.
+   */
+  public url(path: string = "/"): string {
+    return `${this.baseUrl}${path}`;
+  }
+
+  /**
+   * Starts the server on a free local port.
+   *
+   * @returns The URL of the server.
+   */
+  public async start(): Promise<string> {
+    this.server = http.createServer((request, response) =>
+      this.handleRequest(request, response)
+    );
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * Stops the server, closing any open connections.
+   */
+  public async stop(): Promise<void> {
+    this.server?.closeAllConnections();
+    await new Promise<void>((resolve, reject) =>
+      this.server ? this.server.close((error) => (error ? reject(error) : resolve())) : resolve()
+    );
+    this.server = undefined;
+  }
+
+  private async handleRequest(
+    request: http.IncomingMessage,
+    response: http.ServerResponse
+  ): Promise<void> {
+    let body = "";
+    for await (const chunk of request) {
+      body += chunk;
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const query: Record<string, string[]> = {};
+    url.searchParams.forEach((value, key) => (query[key] = [...(query[key] ?? []), value]));
+
+    const mockRequest: interfaces.MockApiRequest = {
+      method: request.method ?? "GET",
+      url: request.url ?? "/",
+      path: url.pathname,
+      query,
+      headers: request.headers,
+      body,
+    };
+    this.requests.push(mockRequest);
+
+    const handler = this.routes.get(`${mockRequest.method} ${url.pathname}`);
+    const mockResponse = handler
+      ? await handler(mockRequest)
+      : { body: { method: mockRequest.method, path: url.pathname, query, body } };
+
+    if (mockResponse.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, mockResponse.delayMs));
+    }
+    if (response.destroyed) {
+      return;
+    }
+
+    const isText = typeof mockResponse.body === "string";
+    response.writeHead(mockResponse.status ?? 200, {
+      "Content-Type": isText ? "text/plain" : "application/json",
+      ...mockResponse.headers,
+    });
+    response.end(
+      mockResponse.body === undefined || request.method === "HEAD"
+        ? undefined
+        : isText
+        ? mockResponse.body
+        : JSON.stringify(mockResponse.body)
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AccessToken, TokenCredential } from "@azure/identity";
+
+/**
+ * A local stand-in for the Azure Key Vault secrets API, so the Azure Key Vault key provider
+ * can be tested without a vault or Azure credentials. It keeps secrets in memory and only
+ * supports getting and setting the latest version of a secret.
+ */
+export default class MockKeyVaultServer {
+  // Token the mock accepts, returned by the credential of the server
+  public static readonly ACCESS_TOKEN = "mock-key-vault-token";
+
+  private static readonly SECRET_PATH_REGEX = /^\/secrets\/([A-Za-z0-9-]+)$/;
+
+  public readonly secrets = new Map<string, string>();
+
+  private server?: http.Server;
+
+  /**
+   * Starts the server on a free local port.
+   *
+   * @returns The URL of the mock vault.
+   */
+  public async start(): Promise<string> {
+    this.server = http.createServer((request, response) =>
+      this.handleRequest(request, response)
+    );
+    await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Stops the server.
+   */
+  public async stop(): Promise<void> {
+    await new Promise<void>((resolve, reject) =>
+      this.server ? this.server.close((error) => (error ? reject(error) : resolve())) : resolve()
+    );
+    this.server = undefined;
+  }
+
+  /**
+   * Returns a credential that issues the token the mock accepts.
+   *
+   * @returns The credential to pass to the Azure Key Vault key provider.
+   */
+  public static getCredential(): TokenCredential {
+    return {
+      getToken: async (): Promise<AccessToken> => ({
+        token: MockKeyVaultServer.ACCESS_TOKEN,
+        expiresOnTimestamp: Date.now() + 60 * 60 * 1000,
+      }),
+    };
+  }
+
+  private handleRequest(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const secretName = MockKeyVaultServer.SECRET_PATH_REGEX.exec(url.pathname)?.[1];
+
+    if (request.headers.authorization !== `Bearer ${MockKeyVaultServer.ACCESS_TOKEN}`) {
+      return this.sendJson(response, 401, { error: { code: "Unauthorized" } });
+    }
+    if (!secretName || !url.searchParams.get("api-version")) {
+      return this.sendJson(response, 400, { error: { code: "BadParameter" } });
+    }
+
+    // secret names are case-insensitive in Key Vault
+    const name = secretName.toLowerCase();
+
+    if (request.method === "GET") {
+      const value = this.secrets.get(name);
+      return value === undefined
+        ? this.sendJson(response, 404, { error: { code: "SecretNotFound" } })
+        : this.sendJson(response, 200, { value, id: `${url.origin}${url.pathname}` });
+    }
+
+    if (request.method === "PUT") {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        try {
+          const { value } = JSON.parse(body);
+          if (typeof value !== "string") {
+            return this.sendJson(response, 400, { error: { code: "BadParameter" } });
+          }
+          this.secrets.set(name, value);
+          this.sendJson(response, 200, { value, id: `${url.origin}${url.pathname}` });
+        } catch {
+          this.sendJson(response, 400, { error: { code: "BadParameter" } });
+        }
+      });
+      return;
+    }
+
+    this.sendJson(response, 405, { error: { code: "MethodNotAllowed" } });
+  }
+
+  private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" });
+    response.end(JSON.stringify(body));
+  }
+}
@@ -3,6 +3,7 @@ import logger from "../../../utils/loggerUtil";
 import * as fs from "fs";
 import errorHandler from "../../../helpers/errorHandler";
 import MapDataManager from "../../../helpers/mapDataManager";
+import OtpUtil from "../../../utils/otpUtil";
 
 export default class BasePage {
   readonly page: Page;
@@ -83,6 +84,33 @@ export default class BasePage {
     }
   }
 
+  /**
+   * Element Interaction
+   * Fills a time-based one-time password (RFC 6238) generated from the given secret, for the
+   * MFA step of a login flow. A new password is waited for when the current one is about to
+   * expire. The password itself is never logged.
+   * @param element The element locator.
+   * @param totpSecret The base32 TOTP secret of the account, e.g. ENV.PORTAL_TOTP_SECRET.
+   * @param elementName The name of the element (optional).
+   */
+  async fillOneTimePassword(
+    element: Locator,
+    totpSecret: string,
+    elementName: string = "One-time password"
+  ) {
+    try {
+      const otp = await OtpUtil.generateFreshTotp(totpSecret);
+      await this.performAction(
+        () => element.fill(otp, { force: true }),
+        `${elementName} filled successfully`,
+        `Error entering the one-time password in ${elementName}`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(error, "fillOneTimePassword");
+      throw error;
+    }
+  }
+
   /**
    * Element Interaction
    * @param element The element locator.
@@ -8,6 +8,11 @@ setup(`Authenticated`, async ({ page }) => {
 
   // Step 3: Log in to the application using decrypted credentials (username and password)
 
+  // Step 3.1: For accounts with MFA enabled, enter the one-time password generated from the decrypted TOTP secret
+  // if (ENV.PORTAL_TOTP_SECRET) {
+  //   await basePage.fillOneTimePassword(page.getByLabel("Verification code"), ENV.PORTAL_TOTP_SECRET);
+  // }
+
   // Step 4: Check if the landing page locator is visible, confirming successful login and add successful login message to log
 
   logger.info(`Login Successful`);
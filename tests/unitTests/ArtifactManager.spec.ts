@@ -0,0 +1,98 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test, expect } from "@playwright/test";
+import ArtifactManager from "../helpers/artifactManager";
+import CryptoManager from "../helpers/cryptoManager";
+import CryptoUtil from "../utils/cryptoUtil";
+import {
+  KeyMismatchError,
+  MacVerificationError,
+} from "../helpers/cryptoErrorTypes";
+
+test.describe("Artifact Manager Test Suite", () => {
+  const secretKey = CryptoUtil.generateKey();
+  const storageState = JSON.stringify({
+    cookies: [{ name: "session", value: "abc" }],
+  });
+  let tempDir: string;
+  let encryptedPath: string;
+
+  test.beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "artifact-manager-"));
+    fs.writeFileSync(path.join(tempDir, "state.json"), storageState);
+    encryptedPath = await CryptoManager.encryptFile(
+      path.join(tempDir, "state.json"),
+      secretKey
+    );
+  });
+
+  test.afterEach(async () => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+    delete process.env[ArtifactManager.ARTIFACTS_DIR_VARIABLE];
+    delete process.env.TEST_STORAGE_STATE_PATH;
+  });
+
+  test(`Artifacts are decrypted for the run and removed at teardown`, async () => {
+    expect(
+      await ArtifactManager.decryptArtifacts(secretKey, [])
+    ).toBeUndefined();
+    expect(() => ArtifactManager.getArtifactPath("state.json")).toThrow(
+      "Artifact 'state.json' is not available"
+    );
+
+    const artifactsDir = await ArtifactManager.decryptArtifacts(secretKey, [
+      {
+        name: "state.json",
+        source: encryptedPath,
+        envVar: "TEST_STORAGE_STATE_PATH",
+      },
+    ]);
+
+    const artifactPath = path.join(artifactsDir!, "state.json");
+    expect(fs.readFileSync(artifactPath, "utf8")).toBe(storageState);
+    expect(fs.statSync(artifactsDir!).mode & 0o777).toBe(0o700);
+    expect(process.env.TEST_STORAGE_STATE_PATH).toBe(artifactPath);
+    expect(ArtifactManager.getArtifactPath("state.json")).toBe(artifactPath);
+
+    ArtifactManager.removeDecryptedArtifacts(artifactsDir);
+    expect(fs.existsSync(artifactsDir!)).toBe(false);
+  });
+
+  test(`Nothing is left behind when an artifact cannot be decrypted`, async () => {
+    const artifacts = [
+      { name: "state.json", source: encryptedPath },
+      { name: "missing.json", source: path.join(tempDir, "missing.json.enc") },
+    ];
+    const artifactDirs = () =>
+      fs
+        .readdirSync(os.tmpdir())
+        .filter((name) => name.startsWith("artifacts-"));
+    const existingDirs = artifactDirs();
+
+    await expect(
+      ArtifactManager.decryptArtifacts(undefined, artifacts)
+    ).rejects.toThrow(
+      "A secret key is required to decrypt 2 encrypted artifact(s)."
+    );
+    await expect(
+      ArtifactManager.decryptArtifacts(secretKey, artifacts)
+    ).rejects.toThrow("Encrypted artifact not found");
+    await expect(
+      ArtifactManager.decryptArtifacts(
+        CryptoUtil.generateKey(),
+        artifacts.slice(0, 1)
+      )
+    ).rejects.toThrow(KeyMismatchError);
+
+    const tampered = fs.readFileSync(encryptedPath);
+    tampered[tampered.length - 1] ^= 0x01;
+    fs.writeFileSync(encryptedPath, tampered);
+    await expect(
+      ArtifactManager.decryptArtifacts(secretKey, artifacts.slice(0, 1))
+    ).rejects.toThrow(MacVerificationError);
+
+    expect(artifactDirs()).toEqual(existingDirs);
+    expect(process.env[ArtifactManager.ARTIFACTS_DIR_VARIABLE]).toBeUndefined();
+  });
+});
@@ -0,0 +1,85 @@
+import { test, expect } from "@playwright/test";
+import OtpUtil from "../utils/otpUtil";
+import CryptoUtil from "../utils/cryptoUtil";
+import { OtpAlgorithm } from "../models/utilityEnums";
+
+// Test vectors of RFC 6238 appendix B: 8 digits, 30 second period
+const TOTP_SECRETS: Record<OtpAlgorithm, Buffer> = {
+  [OtpAlgorithm.SHA1]: Buffer.from("12345678901234567890", "ascii"),
+  [OtpAlgorithm.SHA256]: Buffer.from("12345678901234567890123456789012", "ascii"),
+  [OtpAlgorithm.SHA512]: Buffer.from(
+    "1234567890123456789012345678901234567890123456789012345678901234",
+    "ascii"
+  ),
+};
+const TOTP_VECTORS: [number, OtpAlgorithm, string][] = [
+  [59, OtpAlgorithm.SHA1, "94287082"],
+  [59, OtpAlgorithm.SHA256, "46119246"],
+  [59, OtpAlgorithm.SHA512, "90693936"],
+  [1111111109, OtpAlgorithm.SHA1, "07081804"],
+  [1111111109, OtpAlgorithm.SHA256, "68084774"],
+  [1111111109, OtpAlgorithm.SHA512, "25091201"],
+  [1111111111, OtpAlgorithm.SHA1, "14050471"],
+  [1111111111, OtpAlgorithm.SHA256, "67062674"],
+  [1111111111, OtpAlgorithm.SHA512, "99943326"],
+  [1234567890, OtpAlgorithm.SHA1, "89005924"],
+  [1234567890, OtpAlgorithm.SHA256, "91819424"],
+  [1234567890, OtpAlgorithm.SHA512, "93441116"],
+  [2000000000, OtpAlgorithm.SHA1, "69279037"],
+  [2000000000, OtpAlgorithm.SHA256, "90698825"],
+  [2000000000, OtpAlgorithm.SHA512, "38618901"],
+  [20000000000, OtpAlgorithm.SHA1, "65353130"],
+  [20000000000, OtpAlgorithm.SHA256, "77737706"],
+  [20000000000, OtpAlgorithm.SHA512, "47863826"],
+];
+
+// Test vectors of RFC 4226 appendix D: 6 digits, counters 0 to 9
+const HOTP_VECTORS = [
+  "755224", "287082", "359152", "969429", "338314",
+  "254676", "287922", "162583", "399871", "520489",
+];
+
+test.describe("Auth Helpers Test Suite", () => {
+  test(`TOTP matches the RFC 6238 test vectors`, async () => {
+    for (const [seconds, algorithm, expected] of TOTP_VECTORS) {
+      expect(
+        OtpUtil.generateTotp(TOTP_SECRETS[algorithm], {
+          algorithm,
+          digits: 8,
+          timestamp: seconds * 1000,
+        }),
+        `${algorithm} at ${seconds}s`
+      ).toBe(expected);
+    }
+  });
+
+  test(`HOTP matches the RFC 4226 test vectors`, async () => {
+    HOTP_VECTORS.forEach((expected, counter) =>
+      expect(OtpUtil.generateHotp(TOTP_SECRETS[OtpAlgorithm.SHA1], counter)).toBe(expected)
+    );
+  });
+
+  test(`TOTP accepts base32 secrets and verifies within the drift window`, async () => {
+    // base32 of the RFC 6238 SHA1 secret, formatted as enrolment pages show it
+    const secret = "gezd gnbv gy3t qojq gezd gnbv gy3t qojq";
+    const timestamp = 1111111109 * 1000;
+
+    const code = OtpUtil.generateTotp(secret, { timestamp });
+    expect(code).toBe("081804");
+    expect(OtpUtil.verifyTotp(code, secret, 1, { timestamp: timestamp + 30_000 })).toBe(true);
+    expect(OtpUtil.verifyTotp(code, secret, 1, { timestamp: timestamp + 90_000 })).toBe(false);
+    expect(() => OtpUtil.decodeBase32("not base32!")).toThrow("Invalid base32 secret");
+  });
+
+  test(`Password hashes verify only the original password`, async () => {
+    const passwordHash = CryptoUtil.hashPassword("P@ssw0rd-for-seeding");
+
+    expect(passwordHash).toMatch(/^\$scrypt\$N=\d+,r=\d+,p=\d+\$[^$]+\$[^$]+$/);
+    expect(CryptoUtil.hashPassword("P@ssw0rd-for-seeding")).not.toBe(passwordHash);
+    expect(CryptoUtil.verifyPassword("P@ssw0rd-for-seeding", passwordHash)).toBe(true);
+    expect(CryptoUtil.verifyPassword("p@ssw0rd-for-seeding", passwordHash)).toBe(false);
+    expect(() => CryptoUtil.verifyPassword("password", "$2b$10$notscrypt")).toThrow(
+      "Invalid password hash"
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { test, expect } from "@playwright/test";
+import { TokenCredential } from "@azure/identity";
+import RestHttpClient from "../apiTests/core/restHttpClient";
+import MockApiServer from "../testSupport/mockApiServer";
+import BearerAuthProvider from "../apiTests/authProviders/bearerAuthProvider";
+import BasicAuthProvider from "../apiTests/authProviders/basicAuthProvider";
+import ApiKeyAuthProvider from "../apiTests/authProviders/apiKeyAuthProvider";
+import OAuth2ClientCredentialsAuthProvider from "../apiTests/authProviders/oauth2ClientCredentialsAuthProvider";
+import AzureAuthProvider from "../apiTests/authProviders/azureAuthProvider";
+import AuthProviderFactory from "../apiTests/authProviders/authProviderFactory";
+import { HttpMethod } from "../models/utilityEnums";
+
+test.describe("Auth Provider Test Suite", () => {
+  let server: MockApiServer;
+  let issuedTokens: number;
+
+  test.beforeEach(async () => {
+    issuedTokens = 0;
+    server = new MockApiServer();
+    await server.start();
+
+    // token endpoint of the client credentials grant, issuing numbered tokens
+    server.route("POST", "/oauth/token", (request) => {
+      const form = new URLSearchParams(request.body);
+      const basic = `Basic ${Buffer.from("client%3A1:s3cret%26").toString("base64")}`;
+      const clientAuthenticated =
+        request.headers.authorization === basic ||
+        (form.get("client_id") === "client:1" && form.get("client_secret") === "s3cret&");
+      if (form.get("grant_type") !== "client_credentials" || !clientAuthenticated) {
+        return { status: 401, body: { error: "invalid_client" } };
+      }
+      issuedTokens++;
+      return {
+        body: {
+          access_token: `token-${issuedTokens}`,
+          token_type: "bearer",
+          expires_in: Number(form.get("scope")?.match(/ttl:(\d+)/)?.[1] ?? 3600),
+        },
+      };
+    });
+    // API that only accepts the latest token
+    server.route("GET", "/protected", (request) =>
+      request.headers.authorization === `Bearer token-${issuedTokens}`
+        ? { body: { ok: true } }
+        : { status: 401 }
+    );
+  });
+
+  test.afterEach(async () => {
+    await server.stop();
+  });
+
+  test(`Static providers authenticate every request of the client`, async () => {
+    const client = new RestHttpClient(undefined, new BearerAuthProvider("static-token"));
+    await client.request({ method: HttpMethod.GET, url: server.url("/a") });
+    await client.request({
+      method: HttpMethod.GET,
+      url: server.url("/b"),
+      headers: { Authorization: "Bearer override" },
+    });
+    await client.request({ method: HttpMethod.GET, url: server.url("/health"), skipAuth: true });
+
+    client.setAuthProvider(new BasicAuthProvider("user", "pä:ss"));
+    await client.request({ method: HttpMethod.GET, url: server.url("/c") });
+
+    client.setAuthProvider(new ApiKeyAuthProvider("key-123"));
+    await client.request({ method: HttpMethod.GET, url: server.url("/d") });
+
+    client.setAuthProvider(new ApiKeyAuthProvider("key-456", "api_key", "query"));
+    await client.request({ method: HttpMethod.GET, url: server.url("/e"), query: { page: 1 } });
+
+    const [a, b, health, c, d, e] = server.requests;
+    expect(a.headers.authorization).toBe("Bearer static-token");
+    expect(b.headers.authorization).toBe("Bearer override");
+    expect(health.headers.authorization).toBeUndefined();
+    expect(c.headers.authorization).toBe(
+      `Basic ${Buffer.from("user:pä:ss", "utf8").toString("base64")}`
+    );
+    expect(d.headers["x-api-key"]).toBe("key-123");
+    expect(e.url).toBe("/e?api_key=key-456&page=1");
+  });
+
+  test(`Providers are created from the environment variables`, async () => {
+    const names = ["API_AUTH_TYPE", "API_USERNAME", "API_PASSWORD", "API_KEY"];
+    const saved = names.map((name) => process.env[name]);
+    try {
+      Object.assign(process.env, {
+        API_AUTH_TYPE: "basic",
+        API_USERNAME: "env-user",
+        API_PASSWORD: "env-password",
+      });
+      delete process.env.API_KEY;
+
+      expect(AuthProviderFactory.getProvider()?.type).toBe("basic");
+      expect(() => AuthProviderFactory.getProvider("api-key")).toThrow("An API key is required");
+      expect(() => AuthProviderFactory.getProvider("kerberos")).toThrow("Unknown auth provider");
+      expect(AuthProviderFactory.getProvider("")).toBeUndefined();
+    } finally {
+      names.forEach((name, index) =>
+        saved[index] === undefined ? delete process.env[name] : (process.env[name] = saved[index])
+      );
+    }
+  });
+
+  test(`Client credentials tokens are cached and shared`, async () => {
+    const provider = new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: server.url("/oauth/token"),
+      clientId: "client:1",
+      clientSecret: "s3cret&",
+    });
+    const client = new RestHttpClient(undefined, provider);
+
+    const responses = await Promise.all(
+      [1, 2, 3].map(() => client.request({ method: HttpMethod.GET, url: server.url("/protected") }))
+    );
+    await client.request({ method: HttpMethod.GET, url: server.url("/protected") });
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(issuedTokens).toBe(1);
+
+    const bodyCredentials = new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: server.url("/oauth/token"),
+      clientId: "client:1",
+      clientSecret: "s3cret&",
+      credentialsInBody: true,
+    });
+    expect(await bodyCredentials.getToken()).toMatchObject({
+      token: "token-2",
+      tokenType: "Bearer",
+    });
+
+    const wrongSecret = new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: server.url("/oauth/token"),
+      clientId: "client:1",
+      clientSecret: "wrong",
+    });
+    await expect(wrongSecret.getToken()).rejects.toThrow("401");
+  });
+
+  test(`Tokens are refreshed before expiry and after a 401`, async () => {
+    // expires within the refresh margin, so every request gets a new token
+    const shortLived = new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: server.url("/oauth/token"),
+      clientId: "client:1",
+      clientSecret: "s3cret&",
+      scope: "read ttl:30",
+    });
+    expect((await shortLived.getToken()).token).toBe("token-1");
+    expect((await shortLived.getToken()).token).toBe("token-2");
+    expect(new URLSearchParams(server.requests[0].body).get("scope")).toBe("read ttl:30");
+
+    const provider = new OAuth2ClientCredentialsAuthProvider({
+      tokenUrl: server.url("/oauth/token"),
+      clientId: "client:1",
+      clientSecret: "s3cret&",
+    });
+    const client = new RestHttpClient(undefined, provider);
+    const first = await client.request({ method: HttpMethod.GET, url: server.url("/protected") });
+    expect(first.status).toBe(200);
+
+    // another client rotates the token, revoking the cached one
+    await shortLived.getToken();
+    const response = await client.request({ method: HttpMethod.GET, url: server.url("/protected") });
+    expect(response.status).toBe(200);
+    expect(issuedTokens).toBe(5);
+  });
+
+  test(`Azure provider reuses the credential token flow`, async () => {
+    const scopes: string[] = [];
+    const credential: TokenCredential = {
+      getToken: async (scope) => {
+        scopes.push(String(scope));
+        return {
+          token: `azure-token-${scopes.length}`,
+          expiresOnTimestamp: Date.now() + 3600_000,
+        };
+      },
+    };
+    const client = new RestHttpClient(
+      undefined,
+      new AzureAuthProvider("api://my-api/.default", credential)
+    );
+
+    await client.request({ method: HttpMethod.GET, url: server.url("/a") });
+    await client.request({ method: HttpMethod.GET, url: server.url("/b") });
+
+    expect(scopes).toEqual(["api://my-api/.default"]);
+    expect(server.requests.map((request) => request.headers.authorization)).toEqual([
+      "Bearer azure-token-1",
+      "Bearer azure-token-1",
+    ]);
+  });
+});
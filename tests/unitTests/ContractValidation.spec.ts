@@ -0,0 +1,213 @@
+import * as fs from "fs";
+import { test, expect } from "@playwright/test";
+import validationsUtility, { ValidationError } from "../helpers/validationsUtility";
+import SchemaValidator from "../utils/schemaValidator";
+import OpenApiContract from "../apiTests/core/openApiContract";
+import RestHttpClient from "../apiTests/core/restHttpClient";
+import MockApiServer from "../testSupport/mockApiServer";
+import BaseRoutes from "../apiTests/endpoints/baseRoutes";
+import { HttpMethod } from "../models/utilityEnums";
+import * as interfaces from "../models/interfaces";
+
+const document: interfaces.OpenApiDocument = {
+  openapi: "3.0.3",
+  paths: {
+    "/orders/{id}": {
+      get: {
+        responses: {
+          "200": {
+            description: "The order",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } },
+          },
+          "4XX": { $ref: "#/components/responses/Problem" },
+        },
+      },
+      delete: { responses: { "204": { description: "Deleted" } } },
+    },
+    "/orders/latest": {
+      get: {
+        responses: {
+          default: {
+            description: "The latest order",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/Order" } } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      Order: {
+        type: "object",
+        required: ["id", "status", "items"],
+        additionalProperties: false,
+        properties: {
+          id: { type: "string", format: "uuid" },
+          status: { type: "string", enum: ["open", "shipped"] },
+          note: { type: "string", nullable: true, maxLength: 10 },
+          items: { type: "array", minItems: 1, items: { $ref: "#/components/schemas/Item" } },
+        },
+      },
+      Item: {
+        type: "object",
+        required: ["sku", "price"],
+        properties: {
+          sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" },
+          price: { type: "number", minimum: 0, exclusiveMinimum: true },
+          quantity: { type: "integer", minimum: 1 },
+        },
+      },
+    },
+    responses: {
+      Problem: {
+        description: "A problem",
+        content: {
+          "application/problem+json": {
+            schema: {
+              type: "object",
+              required: ["title"],
+              properties: { title: { type: "string" } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+class OrderRoutes extends BaseRoutes {
+  public readonly orders = this.defineRoutes({
+    get: { path: "/orders/:id" },
+  });
+}
+
+const order = {
+  id: "6f1c2a3e-0b9d-4c6a-9f1e-2d3c4b5a6e7f",
+  status: "open",
+  note: null,
+  items: [{ sku: "ABC-1", price: 9.99, quantity: 2 }],
+};
+
+test.describe("Contract Validation Test Suite", () => {
+  const contract = new OpenApiContract(document);
+  const orderSchema = { $ref: "#/components/schemas/Order" };
+
+  test(`Schema mismatches are reported with the path of each value`, async () => {
+    expect(SchemaValidator.validate(order, orderSchema, document)).toEqual([]);
+
+    const invalid = {
+      id: "not-a-uuid",
+      status: "lost",
+      note: "far too long",
+      extra: true,
+      items: [
+        { sku: "ABC-1", price: 1 },
+        { sku: "abc", price: 0 },
+        { price: 2, quantity: 1.5 },
+        { sku: "ABC-4", price: "12.50" },
+      ],
+    };
+    const issues = SchemaValidator.validate(invalid, orderSchema, document);
+
+    expect(SchemaValidator.formatIssues(issues).split("\n")).toEqual([
+      '$.id: expected uuid format, received "not-a-uuid"',
+      '$.status: expected one of "open", "shipped", received "lost"',
+      "$.note: expected at most 10 characters, received 12",
+      "$.extra: unexpected property",
+      '$.items[1].sku: expected to match pattern ^[A-Z]{3}-\\d+$, received "abc"',
+      "$.items[1].price: expected > 0, received 0",
+      "$.items[2].sku: missing required property",
+      "$.items[2].quantity: expected integer, received number",
+      "$.items[3].price: expected number, received string",
+    ]);
+    expect(SchemaValidator.formatIssues(issues, 2).split("\n")).toHaveLength(3);
+
+    const union: interfaces.JsonSchema = {
+      type: "object",
+      properties: {
+        "content-type": {
+          anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+        },
+        created: { type: "string", format: "date" },
+      },
+    };
+    const unionIssues = SchemaValidator.validate({ "content-type": [1], created: "2024-02-30" }, union);
+    expect(unionIssues).toEqual([
+      { path: '$["content-type"]', message: "expected to match one of the 2 schemas of anyOf" },
+      { path: '$["content-type"][0]', message: "expected string, received number" },
+      { path: "$.created", message: 'expected date format, received "2024-02-30"' },
+    ]);
+    expect(() => SchemaValidator.validate({}, { $ref: "#/components/schemas/Missing" })).toThrow(
+      "Unresolved schema reference #/components/schemas/Missing"
+    );
+  });
+
+  test(`Response schemas are found by method, path and status`, async () => {
+    expect(contract.findPath("https://api.test/base/v1/orders/42?expand=items")).toBe(
+      "/orders/{id}"
+    );
+    expect(contract.findPath("/orders/latest")).toBe("/orders/latest");
+    expect(contract.findPath("/customers/42")).toBeUndefined();
+
+    expect(contract.getResponseSchema("GET", "/v1/orders/42", 200)).toEqual(orderSchema);
+    expect(contract.getResponseSchema("get", "/orders/42", 404)).toMatchObject({
+      required: ["title"],
+    });
+    expect(contract.getResponseSchema("GET", "/orders/latest", 200)).toEqual(orderSchema);
+    expect(contract.getResponseSchema("DELETE", "/orders/42", 204)).toBeUndefined();
+
+    expect(() => contract.getResponseSchema("GET", "/orders/42", 500)).toThrow(
+      "Status 500 is not documented for GET /orders/{id}"
+    );
+    expect(() => contract.getResponseSchema("PUT", "/orders/42", 200)).toThrow(
+      "Operation PUT /orders/{id} is not documented"
+    );
+    expect(() => contract.getResponseSchema("GET", "/customers/42", 200)).toThrow(
+      "No path of the OpenAPI document matches /customers/42"
+    );
+  });
+
+  test(`API responses are validated against the OpenAPI document`, async () => {
+    const server = new MockApiServer();
+    await server.start();
+    try {
+      const filePath = test.info().outputPath("openapi.json");
+      fs.writeFileSync(filePath, JSON.stringify(document));
+      const fileContract = OpenApiContract.fromFile(filePath);
+      expect(OpenApiContract.fromFile(filePath)).toBe(fileContract);
+
+      server
+        .route("GET", "/api/orders/1", () => ({ body: order }))
+        .route("GET", "/api/orders/2", () => ({
+          body: { ...order, items: [...order.items, { sku: "ABC-2", price: "1.00" }] },
+        }))
+        .route("GET", "/api/orders/3", () => ({ status: 404, body: { detail: "Not found" } }));
+      const client = new RestHttpClient({ maxAttempts: 1 });
+      const routes = new OrderRoutes(server.url("/api"));
+      const get = (id: number) =>
+        client.request({ method: HttpMethod.GET, url: routes.orders.get({ params: { id } }) });
+
+      validationsUtility.validateResponseContract(await get(1), "getOrder", fileContract);
+      validationsUtility.validateResponseSchema(await get(1), orderSchema, "getOrder", document);
+
+      const mismatch = await get(2);
+      expect(() =>
+        validationsUtility.validateResponseContract(mismatch, "getOrder", fileContract)
+      ).toThrow(ValidationError);
+      expect(() =>
+        validationsUtility.validateResponseContract(mismatch, "getOrder", fileContract)
+      ).toThrow(
+        "Response body of GET /orders/{id} (200) does not match its schema in method [getOrder]:\n" +
+          "$.items[1].price: expected number, received string"
+      );
+
+      const notFound = await get(3);
+      expect(notFound.status).toBe(404);
+      expect(() =>
+        validationsUtility.validateResponseContract(notFound, "getOrder", fileContract)
+      ).toThrow("$.title: missing required property");
+    } finally {
+      await server.stop();
+    }
+  });
+});
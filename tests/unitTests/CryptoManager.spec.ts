@@ -0,0 +1,202 @@
+import { test, expect } from "@playwright/test";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import CryptoManager from "../helpers/cryptoManager";
+import EnvironmentManager from "../helpers/environmentManager";
+import CryptoUtil from "../utils/cryptoUtil";
+import EnvFileParser from "../utils/envFileParser";
+import {
+  KeyMismatchError,
+  MacVerificationError,
+  MalformedCiphertextError,
+  UnsupportedVersionError,
+} from "../helpers/cryptoErrorTypes";
+
+/**
+ * Returns a random string of Unicode code points from every plane in use: ASCII, control
+ * characters, accents, combining marks, right-to-left scripts, CJK and emoji.
+ */
+function randomUnicode(maxLength: number): string {
+  const ranges: [number, number][] = [
+    [0x00, 0x7f],
+    [0x80, 0x24f],
+    [0x300, 0x36f],
+    [0x590, 0x6ff],
+    [0x4e00, 0x9fff],
+    [0x1f300, 0x1faff],
+  ];
+  const length = crypto.randomInt(1, maxLength + 1);
+  return Array.from({ length }, () => {
+    const [min, max] = ranges[crypto.randomInt(ranges.length)];
+    return String.fromCodePoint(crypto.randomInt(min, max + 1));
+  }).join("");
+}
+
+// Secret key and plaintext of the known-answer values below
+const KNOWN_ANSWER_SECRET_KEY = "known-answer-secret-key";
+const KNOWN_ANSWER_PLAINTEXT = "Known answer: ✓ naïve 🔐";
+
+// One value of every supported format, which must keep decrypting to the plaintext above
+const KNOWN_ANSWER_VALUES: Record<string, string> = {
+  "v0 AES-256-CBC": `{"salt":"Vyd5dx9E/VtaJpcEXzCMSBBVDvlVC4xgYeGp0tt8j1M=","iv":"89r0k+XyuGrGnp5zTUBwug==","cipherText":"E3/VBuC3cx1ekaFBlic7DwHtfpiAToWrviS7XvjQmZI=","mac":"8bb43617809fc7890ce37870f2a0023a8638ec90bced2c9225046c6581d1dd37"}`,
+  "v1 AES-256-GCM": `{"v":1,"alg":"aes-256-gcm","kdf":"pbkdf2-sha256","iter":100000,"salt":"MrCSizyenBLqIHo87/cyfLjVRkkcmiIVGXP5SC1i3wM=","iv":"kjvbQKGS76psQdHd","cipherText":"CIgE5XAn6E3ULfY/FPEbfYLvjrD22+BRCVpPyig=","tag":"CZ7KSM+vXC04m04WEpvVew==","mac":"364fa29bad44d5f92c8773da91b4ddb4642d65a10cc7dde91942209e5047ab26"}`,
+  "v2 AES-256-GCM with PBKDF2": `{"v":2,"alg":"aes-256-gcm","kdf":"pbkdf2-sha256","kdfParams":{"iterations":100000},"salt":"73UzNLAtlJL5AvrUTzHiVy+XPRasCGLCwImQixrhzZQ=","iv":"WVyvCv/zeJ90NEtX","cipherText":"ME7bjrUjRk89zhnOz9vWyrYp7q2WBIwZuRw0Kuw=","tag":"GMkhAC1fdwbfWm6oywnNlA==","mac":"8cc342e9725e4a0b65904eca42d2ea6f6f34bb6516f5dd821c6c07de3a979c42","kcv":"57dfe3b3c386ce0a"}`,
+  "v2 AES-256-GCM with scrypt": `{"v":2,"alg":"aes-256-gcm","kdf":"scrypt","kdfParams":{"cost":1024,"blockSize":8,"parallelization":1},"salt":"KJodgzikoGQvm8cNYHW6lL5VJRiFrLHRyvhc3T6dhug=","iv":"8VheZpk4XWzv9/oB","cipherText":"NivRUzdUWN9bM1UNOjYBQGn4X6n6/elDYdG6DE0=","tag":"y18+nGg5gNqfTLzf4HDWeA==","mac":"eca63c508368bc6eeab66f5f8a4ba12b18a79a32173f711c07cd387832c12130","kcv":"5de94476337d5d79"}`,
+};
+
+test.describe("Crypto Manager Test Suite", () => {
+  let tempDir: string;
+  const secretKey = CryptoUtil.generateKey();
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "crypto-manager-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test(`Known-answer values of every version decrypt`, async () => {
+    for (const [name, value] of Object.entries(KNOWN_ANSWER_VALUES)) {
+      expect(
+        CryptoManager.decrypt(value, KNOWN_ANSWER_SECRET_KEY),
+        name
+      ).toBe(KNOWN_ANSWER_PLAINTEXT);
+    }
+  });
+
+  test(`Random Unicode values survive a round trip`, async () => {
+    const values = [
+      "",
+      " ",
+      "a=b#c",
+      "line\nbreak\r\n",
+      "\u0000nul",
+      ...Array.from({ length: 20 }, () => randomUnicode(64)),
+    ];
+
+    for (const value of values) {
+      const encrypted = JSON.stringify(CryptoManager.encrypt(value, secretKey));
+      expect(CryptoManager.isEncrypted(encrypted)).toBe(true);
+      expect(CryptoManager.decrypt(encrypted, secretKey), JSON.stringify(value)).toBe(value);
+    }
+  });
+
+  test(`Encrypting the same value twice gives different ciphertexts`, async () => {
+    const first = CryptoManager.encrypt("same value", secretKey);
+    const second = CryptoManager.encrypt("same value", secretKey);
+
+    expect(first.salt).not.toBe(second.salt);
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.cipherText).not.toBe(second.cipherText);
+  });
+
+  test(`Tampering with any part of a value is detected`, async () => {
+    const envelope = CryptoManager.encrypt("tamper-proof value", secretKey);
+    const flip = (base64: string) => {
+      const bytes = Buffer.from(base64, "base64");
+      bytes[0] ^= 0x01;
+      return bytes.toString("base64");
+    };
+    const cases: [string, object, new (...args: never[]) => Error][] = [
+      ["cipherText", { cipherText: flip(envelope.cipherText) }, MacVerificationError],
+      ["iv", { iv: flip(envelope.iv) }, MacVerificationError],
+      ["tag", { tag: flip(envelope.tag) }, MacVerificationError],
+      ["mac", { mac: "0".repeat(64) }, MacVerificationError],
+      ["kcv", { kcv: "0".repeat(16) }, MacVerificationError],
+      ["salt", { salt: flip(envelope.salt) }, KeyMismatchError],
+      ["kdfParams", { kdfParams: { iterations: 99999 } }, KeyMismatchError],
+      ["excessive kdfParams", { kdfParams: { iterations: 2 ** 31 } }, MalformedCiphertextError],
+      ["version", { v: 99 }, UnsupportedVersionError],
+      ["algorithm", { alg: "aes-128-gcm" }, UnsupportedVersionError],
+      ["missing tag", { tag: undefined }, MalformedCiphertextError],
+    ];
+
+    for (const [name, change, errorType] of cases) {
+      expect(
+        () => CryptoManager.decrypt(JSON.stringify({ ...envelope, ...change }), secretKey),
+        name
+      ).toThrow(errorType);
+    }
+    expect(() => CryptoManager.decrypt("not json", secretKey)).toThrow(MalformedCiphertextError);
+    expect(() => CryptoManager.decrypt("", secretKey)).toThrow(MalformedCiphertextError);
+  });
+
+  test(`Wrong keys are told apart from tampering`, async () => {
+    const envelope = CryptoManager.encrypt("value", secretKey);
+    const wrongKey = CryptoUtil.generateKey();
+
+    expect(() => CryptoManager.decrypt(JSON.stringify(envelope), wrongKey)).toThrow(
+      KeyMismatchError
+    );
+    expect(CryptoManager.verifyMac(JSON.stringify(envelope), wrongKey)).toBe(false);
+
+    // values without a key check value can only report a MAC failure
+    expect(() =>
+      CryptoManager.decrypt(JSON.stringify({ ...envelope, kcv: undefined }), wrongKey)
+    ).toThrow(MacVerificationError);
+    expect(() =>
+      CryptoManager.decrypt(KNOWN_ANSWER_VALUES["v0 AES-256-CBC"], wrongKey)
+    ).toThrow(MacVerificationError);
+  });
+
+  test(`Files survive a round trip and tampering is detected`, async () => {
+    const inputPath = path.join(tempDir, "state.json");
+    const content = crypto.randomBytes(256 * 1024);
+    fs.writeFileSync(inputPath, content);
+
+    const encryptedPath = await CryptoManager.encryptFile(inputPath, secretKey);
+    const decryptedPath = await CryptoManager.decryptFile(
+      encryptedPath,
+      secretKey,
+      path.join(tempDir, "decrypted.json")
+    );
+    expect(fs.readFileSync(decryptedPath).equals(content)).toBe(true);
+
+    await expect(
+      CryptoManager.decryptFile(encryptedPath, CryptoUtil.generateKey(), path.join(tempDir, "wrong"))
+    ).rejects.toThrow(KeyMismatchError);
+
+    const encrypted = fs.readFileSync(encryptedPath);
+    encrypted[encrypted.length - 100] ^= 0x01;
+    fs.writeFileSync(encryptedPath, encrypted);
+    await expect(
+      CryptoManager.decryptFile(encryptedPath, secretKey, path.join(tempDir, "tampered"))
+    ).rejects.toThrow(MacVerificationError);
+    expect(fs.existsSync(path.join(tempDir, "tampered"))).toBe(false);
+  });
+
+  test(`Environment files are encrypted in place and decrypt again`, async () => {
+    const envManager = new EnvironmentManager(tempDir);
+    const envFilePath = path.join(tempDir, ".env.test");
+    fs.writeFileSync(
+      envFilePath,
+      `# test environment\nPORTAL_URL=https://portal.test\nPORTAL_PASSWORD="p@ss #1=ü"\n`
+    );
+
+    envManager.initializeEncryption(".env.test", secretKey);
+    expect(envManager.encryptEnvVariables()).toMatchObject({
+      encrypted: ["PORTAL_PASSWORD"],
+      ignored: ["PORTAL_URL"],
+    });
+    expect(envManager.encryptEnvVariables()).toMatchObject({
+      encrypted: [],
+      skipped: ["PORTAL_PASSWORD"],
+    });
+
+    const record = EnvFileParser.toRecord(EnvFileParser.parse(fs.readFileSync(envFilePath, "utf8")));
+    expect(record.PORTAL_URL).toBe("https://portal.test");
+    expect(CryptoManager.decrypt(record.PORTAL_PASSWORD, secretKey)).toBe("p@ss #1=ü");
+    expect(envManager.revealValue(".env.test", "PORTAL_PASSWORD", secretKey)).toBe("p@ss #1=ü");
+
+    const exportPath = envManager.exportDecryptedFile(".env.test", secretKey, ["PORTAL_PASSWORD"]);
+    expect(fs.readFileSync(exportPath, "utf8")).toBe(`PORTAL_PASSWORD="p@ss #1=ü"\n`);
+    expect(fs.statSync(exportPath).mode & 0o777).toBe(0o600);
+    fs.rmSync(path.dirname(exportPath), { recursive: true, force: true });
+    expect(() => envManager.exportDecryptedFile(".env.test", secretKey, ["MISSING"])).toThrow(
+      "Key(s) MISSING not found"
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { test, expect } from "@playwright/test";
+import CryptoUtil from "../utils/cryptoUtil";
+import KeyDerivationUtil from "../utils/keyDerivationUtil";
+import CryptoSelfTest from "../helpers/cryptoSelfTest";
+import CryptoManager from "../helpers/cryptoManager";
+import { MalformedCiphertextError, UnsupportedVersionError } from "../helpers/cryptoErrorTypes";
+import { CipherAlgorithm, KeyDerivationFunction } from "../models/utilityEnums";
+import * as appSettings from "../config/appSettings.json";
+
+test.describe("Crypto Util Test Suite", () => {
+  test(`Crypto self-test passes`, async () => {
+    expect(() => CryptoSelfTest.run()).not.toThrow();
+  });
+
+  test(`Random values have the configured lengths and do not repeat`, async () => {
+    const { SALT_LENGTH, IV_LENGTH, KEY_LENGTH } = appSettings.PARAMETER_LENGTHS;
+
+    expect(Buffer.from(CryptoUtil.generateSalt(), "base64")).toHaveLength(SALT_LENGTH);
+    expect(Buffer.from(CryptoUtil.generateIvAsBase64(), "base64")).toHaveLength(IV_LENGTH);
+    expect(CryptoUtil.generateIvAsBuffer(12)).toHaveLength(12);
+    expect(Buffer.from(CryptoUtil.generateKey(), "base64")).toHaveLength(KEY_LENGTH);
+
+    const keys = new Set(Array.from({ length: 50 }, () => CryptoUtil.generateKey()));
+    expect(keys.size).toBe(50);
+  });
+
+  test(`Derived keys are deterministic and independent`, async () => {
+    const salt = CryptoUtil.generateSalt();
+    const params = { iterations: 1000 };
+
+    const first = CryptoUtil.deriveKeys("secret", salt, KeyDerivationFunction.PBKDF2_SHA256, params);
+    const second = CryptoUtil.deriveKeys("secret", salt, KeyDerivationFunction.PBKDF2_SHA256, params);
+    const otherKey = CryptoUtil.deriveKeys("secret!", salt, KeyDerivationFunction.PBKDF2_SHA256, params);
+
+    expect(first.encryptionKey.equals(second.encryptionKey)).toBe(true);
+    expect(first.macKey.equals(second.macKey)).toBe(true);
+    expect(first.encryptionKey).toHaveLength(32);
+    expect(first.macKey).toHaveLength(32);
+    expect(first.encryptionKey.equals(first.macKey)).toBe(false);
+    expect(first.encryptionKey.equals(otherKey.encryptionKey)).toBe(false);
+  });
+
+  test(`Key derivation rejects unknown functions and invalid parameters`, async () => {
+    expect(() => KeyDerivationUtil.validateParams("argon2id", {})).toThrow(
+      "Unsupported key derivation function"
+    );
+    expect(() =>
+      KeyDerivationUtil.validateParams(KeyDerivationFunction.SCRYPT, {
+        cost: 1024,
+        blockSize: 0,
+        parallelization: 1.5,
+      })
+    ).toThrow("blockSize, parallelization");
+    expect(() =>
+      KeyDerivationUtil.validateParams(KeyDerivationFunction.PBKDF2_SHA256, {
+        iterations: 2 ** 31,
+      })
+    ).toThrow("iterations 2147483648 exceeds 5000000");
+    expect(() =>
+      KeyDerivationUtil.validateParams(KeyDerivationFunction.SCRYPT, {
+        cost: 2 ** 30,
+        blockSize: 8,
+        parallelization: 1000,
+      })
+    ).toThrow("cost 1073741824 exceeds 1048576, parallelization 1000 exceeds 16");
+  });
+
+  test(`Envelope headers list the parameters in a canonical order`, async () => {
+    expect(
+      CryptoUtil.getEnvelopeHeader({
+        v: 2,
+        alg: CipherAlgorithm.AES_256_GCM,
+        kdf: KeyDerivationFunction.SCRYPT,
+        kdfParams: { parallelization: 1, cost: 1024, blockSize: 8 },
+      })
+    ).toBe("2:aes-256-gcm:scrypt:blockSize=8;cost=1024;parallelization=1");
+    expect(
+      CryptoUtil.getEnvelopeHeader({
+        v: 1,
+        alg: CipherAlgorithm.AES_256_GCM,
+        kdf: KeyDerivationFunction.PBKDF2_SHA256,
+        iter: 100000,
+      })
+    ).toBe("1:aes-256-gcm:pbkdf2-sha256:100000");
+  });
+
+  test(`MAC comparison only accepts identical strings`, async () => {
+    const mac = "8cc342e9725e4a0b65904eca42d2ea6f";
+
+    expect(CryptoUtil.macEquals(mac, mac)).toBe(true);
+    expect(CryptoUtil.macEquals(mac, mac.toUpperCase())).toBe(false);
+    expect(CryptoUtil.macEquals(mac, mac.slice(1))).toBe(false);
+    expect(CryptoUtil.macEquals(mac, undefined)).toBe(false);
+  });
+
+  test(`Parsed data is validated with typed errors`, async () => {
+    const envelope = JSON.parse(
+      JSON.stringify(CryptoManager.encrypt("value", CryptoUtil.generateKey()))
+    );
+
+    expect(() => CryptoUtil.validateParsedData(envelope)).not.toThrow();
+    expect(() => CryptoUtil.validateParsedData({ ...envelope, tag: undefined })).toThrow(
+      MalformedCiphertextError
+    );
+    expect(() => CryptoUtil.validateParsedData({ ...envelope, kdf: "argon2id" })).toThrow(
+      UnsupportedVersionError
+    );
+    expect(() =>
+      CryptoUtil.validateParsedData({ ...envelope, kdfParams: { iterations: -1 } })
+    ).toThrow(MalformedCiphertextError);
+  });
+});
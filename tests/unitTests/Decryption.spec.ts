@@ -1,20 +1,13 @@
 import { test } from "@playwright/test";
 import ENV from "../utils/envVariables";
-import CryptoManager from "../helpers/cryptoManager";
 import logger from "../utils/loggerUtil";
 
 test.describe("Decryption Test Suite", () => {
   test.only("Decryption Test", async ({ page }) => {
-    await page.goto(CryptoManager.decrypt(ENV.PORTAL_URL, ENV.SECRET_KEY_UAT));
-    await page.waitForURL(
-      CryptoManager.decrypt(ENV.PORTAL_URL, ENV.SECRET_KEY_UAT)
-    );
-    logger.info(
-      `Navigated to ${CryptoManager.decrypt(
-        ENV.PORTAL_URL,
-        ENV.SECRET_KEY_UAT
-      )}`
-    ); // Replace with your desired env from envFilePath under models folder
+    // Encrypted values are decrypted once in global setup, so ENV already holds the plaintext
+    await page.goto(ENV.PORTAL_URL);
+    await page.waitForURL(ENV.PORTAL_URL);
+    logger.info(`Navigated to ${ENV.PORTAL_URL}`);
     logger.info(`Page title: ${await page.title()}`);
   });
 });
@@ -0,0 +1,19 @@
+import { test } from "@playwright/test";
+import EncryptionManager from "../encryption/encryptionManager";
+import ENV from "../utils/envVariables";
+
+test.describe("Encrypt Artifact Test Suite", () => {
+  // Set ARTIFACT_PATH to the file to encrypt, e.g. ARTIFACT_PATH=.auth/login.json
+  test.skip(
+    !process.env.ARTIFACT_PATH,
+    "Set ARTIFACT_PATH to the file to encrypt."
+  );
+
+  test(`Encrypt Artifact`, async () => {
+    await EncryptionManager.encryptArtifact(
+      process.env.ARTIFACT_PATH!,
+      ENV.SECRET_KEY,
+      process.env.ARTIFACT_OUTPUT_PATH
+    ); // Encrypts with the key of the environment selected with ENV, e.g. ENV=sit
+  });
+});
@@ -0,0 +1,34 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test, expect } from "@playwright/test";
+import EnvConfig from "../utils/envConfig";
+import * as appSettings from "../config/appSettings.json";
+
+test.describe("Environment Config Test Suite", () => {
+  test(`Only environment files are listed as environments`, async () => {
+    const envDirPath = fs.mkdtempSync(path.join(os.tmpdir(), "env-config-"));
+    try {
+      for (const fileName of [
+        ".env",
+        ".env.sit",
+        ".env.sandbox-jane",
+        ".env.bak",
+        ".env.tmp",
+        ".env.local",
+        ".env.example",
+        ".env.sit.bak",
+        ".env.sit.local",
+        "notes.txt",
+      ]) {
+        fs.writeFileSync(path.join(envDirPath, fileName), "");
+      }
+
+      expect(EnvConfig.getAvailableEnvironments(envDirPath)).toEqual(
+        [...new Set([...Object.keys(appSettings.ENVIRONMENTS), "sit", "sandbox-jane"])].sort()
+      );
+    } finally {
+      fs.rmSync(envDirPath, { recursive: true, force: true });
+    }
+  });
+});
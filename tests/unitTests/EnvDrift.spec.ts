@@ -0,0 +1,34 @@
+import { test, expect } from "@playwright/test";
+import EncryptionManager from "../encryption/encryptionManager";
+import EnvConfig from "../utils/envConfig";
+
+test.describe("Environment Drift Test Suite", () => {
+  test(`Report Environment Drift`, async () => {
+    // Compare the environments in DRIFT_ENVS (e.g. DRIFT_ENVS=dev,uat,prod), or every available one
+    const environments =
+      process.env.DRIFT_ENVS?.split(",").map((env) => env.trim()) ??
+      EnvConfig.getAvailableEnvironments();
+
+    // Set DRIFT_COMPARE_VALUES=true to also compare decrypted values with the loaded secret keys
+    const secretKeys: Record<string, string> = {};
+    if (process.env.DRIFT_COMPARE_VALUES === "true") {
+      for (const env of environments) {
+        const secretKey = process.env[EnvConfig.getSecretKeyName(env)];
+        if (secretKey) {
+          secretKeys[env] = secretKey;
+        }
+      }
+    }
+
+    const report = EncryptionManager.reportEnvironmentDrift(
+      environments,
+      process.env.DRIFT_REPORT ?? "test-results/env-drift-report.json",
+      secretKeys
+    );
+
+    expect(report.missingKeys, "Keys missing per environment").toEqual(
+      Object.fromEntries(environments.map((env) => [env, []]))
+    );
+    expect(report.unusedKeys, "Keys not declared in the environment schema").toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { test, expect } from "@playwright/test";
+import dotenv from "dotenv";
+import EnvFileParser from "../utils/envFileParser";
+
+test.describe("Env File Parser Test Suite", () => {
+  const content = [
+    "# Portal credentials",
+    "PORTAL_USERNAME=jane # inline comment",
+    "export PORTAL_PASSWORD='p@ss#word'",
+    'GREETING="Hello\\nWorld"',
+    "TEMPLATE=`say \"hi\" and 'bye'`",
+    "CONNECTION=Server=db;User=sa;Password=x==",
+    'CERTIFICATE="-----BEGIN-----',
+    "abc=def",
+    '-----END-----" # multiline',
+    "",
+    "EMPTY=",
+    "  SPACED  =  padded value  ",
+    "not a variable",
+  ].join("\n");
+
+  test(`Serializing parsed content reproduces it byte for byte`, async () => {
+    for (const variant of [
+      content + "\n",
+      content,
+      content.replace(/\n/g, "\r\n") + "\r\n",
+      content.replace(/\n/g, "\r\n"),
+      "",
+      "\n\n",
+    ]) {
+      expect(EnvFileParser.serialize(EnvFileParser.parse(variant))).toBe(variant);
+    }
+  });
+
+  test(`Values are read the way dotenv reads them`, async () => {
+    const lines = EnvFileParser.parse(content.replace(/\n/g, "\r\n"));
+
+    expect(EnvFileParser.toRecord(lines)).toEqual({
+      PORTAL_USERNAME: "jane",
+      PORTAL_PASSWORD: "p@ss#word",
+      GREETING: "Hello\nWorld",
+      TEMPLATE: `say "hi" and 'bye'`,
+      CONNECTION: "Server=db;User=sa;Password=x==",
+      CERTIFICATE: "-----BEGIN-----\nabc=def\n-----END-----",
+      EMPTY: "",
+      SPACED: "padded value",
+    });
+    expect(EnvFileParser.toRecord(lines)).toEqual(dotenv.parse(content));
+    expect(lines.map((line) => line.type)).toEqual([
+      "comment",
+      "entry",
+      "entry",
+      "entry",
+      "entry",
+      "entry",
+      "entry",
+      "blank",
+      "entry",
+      "entry",
+      "invalid",
+    ]);
+
+    const [, username, password, , template, , certificate] = lines;
+    expect(username).toMatchObject({ quote: "", inlineComment: "# inline comment" });
+    expect(password).toMatchObject({ exported: true, quote: "'", lineNumber: 3 });
+    expect(template.quote).toBe("`");
+    expect(certificate).toMatchObject({ quote: '"', lineNumber: 7, inlineComment: "# multiline" });
+    expect(lines[lines.length - 1].lineNumber).toBe(13);
+  });
+
+  test(`Setting values keeps the rest of the file and quotes values that need it`, async () => {
+    const lines = EnvFileParser.parse("export A=1 # keep\r\nB='x'");
+
+    let updated = EnvFileParser.setValue(lines, "A", "two words # not a comment");
+    updated = EnvFileParser.setValue(updated, "B", "plain");
+    updated = EnvFileParser.setValue(updated, "C", "line1\nline2");
+    updated = EnvFileParser.setValue(updated, "D", `'single' and "double"`);
+    updated = EnvFileParser.setValue(updated, "E", " padded");
+
+    const serialized = EnvFileParser.serialize(updated);
+    expect(serialized).toBe(
+      [
+        'export A="two words # not a comment" # keep',
+        "B=plain",
+        'C="line1\\nline2"',
+        "D=`'single' and \"double\"`",
+        'E=" padded"',
+        "",
+      ].join("\r\n")
+    );
+    expect(EnvFileParser.toRecord(EnvFileParser.parse(serialized))).toEqual({
+      A: "two words # not a comment",
+      B: "plain",
+      C: "line1\nline2",
+      D: `'single' and "double"`,
+      E: " padded",
+    });
+
+    expect(EnvFileParser.getValue(EnvFileParser.parse("A=1\nA=2\n"), "A")).toBe("2");
+    expect(() => EnvFileParser.setValue(lines, "F", "\"'`")).toThrow(
+      "Value contains every quote character"
+    );
+  });
+});
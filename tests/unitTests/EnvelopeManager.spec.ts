@@ -0,0 +1,81 @@
+import { test, expect } from "@playwright/test";
+import EnvelopeManager from "../helpers/envelopeManager";
+import CryptoUtil from "../utils/cryptoUtil";
+import EnvFileParser from "../utils/envFileParser";
+import { KeyMismatchError, MalformedCiphertextError } from "../helpers/cryptoErrorTypes";
+
+test.describe("Envelope Manager Test Suite", () => {
+  const aliceKey = CryptoUtil.generateKey();
+  const bobKey = CryptoUtil.generateKey();
+
+  test(`Data keys are unwrapped by every recipient`, async () => {
+    const { dataKey, header } = EnvelopeManager.createHeader("alice", aliceKey);
+    const shared = EnvelopeManager.addRecipient(header, dataKey, "bob", bobKey);
+
+    expect(shared.recipients.map(({ id }) => id)).toEqual(["alice", "bob"]);
+    expect(EnvelopeManager.unwrapDataKey(shared, aliceKey)).toBe(dataKey);
+    expect(EnvelopeManager.unwrapDataKey(shared, bobKey)).toBe(dataKey);
+    expect(EnvelopeManager.findRecipient(shared, bobKey)?.id).toBe("bob");
+    expect(() => EnvelopeManager.unwrapDataKey(shared, CryptoUtil.generateKey())).toThrow(
+      KeyMismatchError
+    );
+
+    const withoutBob = EnvelopeManager.removeRecipient(shared, "bob");
+    expect(() => EnvelopeManager.unwrapDataKey(withoutBob, bobKey)).toThrow(KeyMismatchError);
+    expect(() => EnvelopeManager.removeRecipient(withoutBob, "alice")).toThrow(
+      "Recipient 'alice' is the last recipient and cannot be removed"
+    );
+    expect(() => EnvelopeManager.removeRecipient(withoutBob, "carol")).toThrow(
+      "Recipient 'carol' was not found"
+    );
+  });
+
+  test(`Rotated data keys are wrapped for every remaining recipient`, async () => {
+    const { dataKey, header } = EnvelopeManager.createHeader("alice", aliceKey);
+    const shared = EnvelopeManager.addRecipient(header, dataKey, "bob", bobKey);
+
+    expect(() => EnvelopeManager.rotateDataKey(shared, { alice: aliceKey })).toThrow(
+      "The secret key of recipient(s) bob is required to rotate the data key"
+    );
+    expect(() => EnvelopeManager.rotateDataKey(shared, { alice: aliceKey, bob: aliceKey })).toThrow(
+      KeyMismatchError
+    );
+
+    const rotated = EnvelopeManager.rotateDataKey(shared, { alice: aliceKey, bob: bobKey });
+    expect(rotated.dataKey).not.toBe(dataKey);
+    expect(EnvelopeManager.unwrapDataKey(rotated.header, aliceKey)).toBe(rotated.dataKey);
+    expect(EnvelopeManager.unwrapDataKey(rotated.header, bobKey)).toBe(rotated.dataKey);
+  });
+
+  test(`Headers are written once and validated when read`, async () => {
+    const { dataKey, header } = EnvelopeManager.createHeader("alice", aliceKey);
+    const lines = EnvFileParser.parse("# Portal\r\nPORTAL_URL=https://portal.test\r\n");
+
+    const withHeader = EnvelopeManager.setHeader(lines, header);
+    const updated = EnvelopeManager.setHeader(
+      withHeader,
+      EnvelopeManager.addRecipient(header, dataKey, "bob", bobKey)
+    );
+    const content = EnvFileParser.serialize(updated);
+
+    expect(content.startsWith(EnvelopeManager.HEADER_PREFIX)).toBe(true);
+    expect(content.split(EnvelopeManager.HEADER_PREFIX)).toHaveLength(2);
+    expect(content.endsWith("# Portal\r\nPORTAL_URL=https://portal.test\r\n")).toBe(true);
+    expect(EnvelopeManager.resolveFileKey(EnvFileParser.parse(content), bobKey)).toBe(dataKey);
+    expect(EnvelopeManager.parseHeader(lines)).toBeUndefined();
+    expect(EnvelopeManager.resolveFileKey(lines, aliceKey)).toBe(aliceKey);
+
+    for (const invalidHeader of [
+      "{not json",
+      '{"v":2,"recipients":[]}',
+      '{"v":1}',
+      '{"v":1,"recipients":[{"id":"alice"}]}',
+    ]) {
+      expect(() =>
+        EnvelopeManager.parseHeader(
+          EnvFileParser.parse(`${EnvelopeManager.HEADER_PREFIX}${invalidHeader}\nA=1\n`)
+        )
+      ).toThrow(MalformedCiphertextError);
+    }
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test, expect } from "@playwright/test";
+import EnvironmentManager from "../helpers/environmentManager";
+import CryptoManager from "../helpers/cryptoManager";
+import EnvelopeManager from "../helpers/envelopeManager";
+import { KeyMismatchError, MalformedCiphertextError } from "../helpers/cryptoErrorTypes";
+import CryptoUtil from "../utils/cryptoUtil";
+import EnvFileParser from "../utils/envFileParser";
+import FileKeyProvider from "../encryption/keyProviders/fileKeyProvider";
+import * as interfaces from "../models/interfaces";
+
+test.describe("Environment Manager Test Suite", () => {
+  let tempDir: string;
+  let envManager: EnvironmentManager;
+
+  const readRecord = (fileName: string) =>
+    EnvFileParser.toRecord(
+      EnvFileParser.parse(fs.readFileSync(path.join(tempDir, fileName), "utf8"))
+    );
+
+  const writeEncryptedEnvFile = (secretKey: string) => {
+    fs.writeFileSync(
+      path.join(tempDir, ".env.test"),
+      `PORTAL_URL=https://portal.test\nPORTAL_USERNAME=jane\nPORTAL_PASSWORD="p@ss #1"\n`
+    );
+    envManager.initializeEncryption(".env.test", secretKey);
+    envManager.encryptEnvVariables();
+  };
+
+  test.beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "environment-manager-"));
+    envManager = new EnvironmentManager(tempDir);
+  });
+
+  test.afterEach(async () => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test(`Secret keys are rotated into the base environment file`, async () => {
+    const secretKey = CryptoUtil.generateKey();
+    fs.writeFileSync(path.join(tempDir, ".env"), `SECRET_KEY_TEST=${secretKey}\n`);
+    writeEncryptedEnvFile(secretKey);
+
+    const newSecretKey = await envManager.rotateSecretKey(".env.test", "SECRET_KEY_TEST", secretKey);
+
+    const record = readRecord(".env.test");
+    expect(readRecord(".env").SECRET_KEY_TEST).toBe(newSecretKey);
+    expect(CryptoManager.decrypt(record.PORTAL_PASSWORD, newSecretKey)).toBe("p@ss #1");
+    expect(() => CryptoManager.decrypt(record.PORTAL_PASSWORD, secretKey)).toThrow();
+    expect(readRecord(".env.bak").SECRET_KEY_TEST).toBe(secretKey);
+  });
+
+  test(`Secret keys are rotated into other key providers`, async () => {
+    const secretKey = CryptoUtil.generateKey();
+    const provider = new FileKeyProvider(path.join(tempDir, "keys", "keys.env"));
+    await provider.storeKey("SECRET_KEY_TEST", secretKey);
+    writeEncryptedEnvFile(secretKey);
+
+    const newSecretKey = await envManager.rotateSecretKey(
+      ".env.test",
+      "SECRET_KEY_TEST",
+      secretKey,
+      provider
+    );
+
+    expect(await provider.getKey("SECRET_KEY_TEST")).toBe(newSecretKey);
+    expect(CryptoManager.decrypt(readRecord(".env.test").PORTAL_PASSWORD, newSecretKey)).toBe(
+      "p@ss #1"
+    );
+    expect(readRecord(".env")).toEqual({});
+
+    // the file is restored when the provider cannot store the new key
+    const failingProvider: interfaces.KeyProvider = {
+      type: "command",
+      getKey: async () => newSecretKey,
+      storeKey: async () => {
+        throw new Error("store command failed");
+      },
+    };
+    const content = fs.readFileSync(path.join(tempDir, ".env.test"), "utf8");
+    await expect(
+      envManager.rotateSecretKey(".env.test", "SECRET_KEY_TEST", newSecretKey, failingProvider)
+    ).rejects.toThrow("store command failed");
+    expect(fs.readFileSync(path.join(tempDir, ".env.test"), "utf8")).toBe(content);
+  });
+
+  test(`Recipients share an envelope encrypted file`, async () => {
+    const aliceKey = CryptoUtil.generateKey();
+    const bobKey = CryptoUtil.generateKey();
+    writeEncryptedEnvFile(aliceKey);
+
+    expect(envManager.enableEnvelopeEncryption(".env.test", aliceKey, "alice")).toBe(2);
+    expect(() => envManager.enableEnvelopeEncryption(".env.test", aliceKey, "alice")).toThrow(
+      ".env.test already uses envelope encryption"
+    );
+    envManager.addRecipient(".env.test", aliceKey, "bob", bobKey);
+
+    expect(envManager.listRecipients(".env.test")).toEqual(["alice", "bob"]);
+    expect(
+      new EnvironmentManager(tempDir).revealValue(".env.test", "PORTAL_PASSWORD", bobKey)
+    ).toBe("p@ss #1");
+    expect(() =>
+      envManager.addRecipient(".env.test", CryptoUtil.generateKey(), "carol", bobKey)
+    ).toThrow(KeyMismatchError);
+    await expect(
+      envManager.rotateSecretKey(".env.test", "SECRET_KEY_TEST", aliceKey)
+    ).rejects.toThrow(".env.test uses envelope encryption");
+
+    // without a rotation, the data key that bob unwrapped still decrypts the file
+    const dataKey = EnvelopeManager.resolveFileKey(
+      EnvFileParser.parse(fs.readFileSync(path.join(tempDir, ".env.test"), "utf8")),
+      bobKey
+    );
+    expect(envManager.removeRecipient(".env.test", "bob")).toBe(0);
+    expect(() => envManager.revealValue(".env.test", "PORTAL_PASSWORD", bobKey)).toThrow(
+      KeyMismatchError
+    );
+    expect(CryptoManager.decrypt(readRecord(".env.test").PORTAL_PASSWORD, dataKey)).toBe("p@ss #1");
+
+    expect(() => envManager.removeRecipient(".env.test", "alice")).toThrow(
+      "Recipient 'alice' is the last recipient and cannot be removed"
+    );
+    expect(envManager.listRecipients(".env.test")).toEqual(["alice"]);
+  });
+
+  test(`Removing a recipient with a rotation replaces the data key`, async () => {
+    const aliceKey = CryptoUtil.generateKey();
+    const bobKey = CryptoUtil.generateKey();
+    const carolKey = CryptoUtil.generateKey();
+    writeEncryptedEnvFile(aliceKey);
+    envManager.enableEnvelopeEncryption(".env.test", aliceKey, "alice");
+    envManager.addRecipient(".env.test", aliceKey, "bob", bobKey);
+    envManager.addRecipient(".env.test", aliceKey, "carol", carolKey);
+    const dataKey = EnvelopeManager.resolveFileKey(
+      EnvFileParser.parse(fs.readFileSync(path.join(tempDir, ".env.test"), "utf8")),
+      bobKey
+    );
+
+    // the keys of all remaining recipients are needed, and nothing is written without them
+    const content = fs.readFileSync(path.join(tempDir, ".env.test"), "utf8");
+    expect(() => envManager.removeRecipient(".env.test", "bob", { secretKey: aliceKey })).toThrow(
+      "The secret key of recipient(s) carol is required to rotate the data key"
+    );
+    expect(fs.readFileSync(path.join(tempDir, ".env.test"), "utf8")).toBe(content);
+
+    expect(
+      envManager.removeRecipient(".env.test", "bob", {
+        secretKey: aliceKey,
+        recipientKeys: { carol: carolKey },
+      })
+    ).toBe(2);
+
+    const record = readRecord(".env.test");
+    expect(() => CryptoManager.decrypt(record.PORTAL_PASSWORD, dataKey)).toThrow();
+    expect(envManager.revealValue(".env.test", "PORTAL_PASSWORD", aliceKey)).toBe("p@ss #1");
+    expect(envManager.revealValue(".env.test", "PORTAL_PASSWORD", carolKey)).toBe("p@ss #1");
+    expect(envManager.listRecipients(".env.test")).toEqual(["alice", "carol"]);
+
+    // values encrypted afterwards are under the new data key as well
+    fs.appendFileSync(path.join(tempDir, ".env.test"), "PORTAL_TOKEN=token-1\n");
+    envManager.initializeEncryption(".env.test", carolKey, { include: ["PORTAL_TOKEN"] });
+    envManager.encryptEnvVariables();
+    expect(() => CryptoManager.decrypt(readRecord(".env.test").PORTAL_TOKEN, dataKey)).toThrow();
+
+    expect(
+      envManager.rotateDataKey(".env.test", {
+        secretKey: carolKey,
+        recipientKeys: { alice: aliceKey },
+      })
+    ).toBe(3);
+    expect(envManager.revealValue(".env.test", "PORTAL_TOKEN", aliceKey)).toBe("token-1");
+  });
+
+  test(`Invalid envelope headers are rejected`, async () => {
+    const secretKey = CryptoUtil.generateKey();
+    fs.writeFileSync(
+      path.join(tempDir, ".env.test"),
+      `${EnvelopeManager.HEADER_PREFIX}{"v":1,"recipients":"alice"}\nPORTAL_URL=https://portal.test\n`
+    );
+
+    expect(() => envManager.initializeEncryption(".env.test", secretKey)).toThrow(
+      MalformedCiphertextError
+    );
+    expect(() => envManager.listRecipients(".env.test")).toThrow(MalformedCiphertextError);
+    expect(() => envManager.removeRecipient(".env.test", "alice")).toThrow(
+      MalformedCiphertextError
+    );
+
+    fs.writeFileSync(path.join(tempDir, ".env.plain"), "PORTAL_URL=https://portal.test\n");
+    expect(() => envManager.listRecipients(".env.plain")).toThrow(
+      ".env.plain does not use envelope encryption. Enable it first."
+    );
+  });
+});
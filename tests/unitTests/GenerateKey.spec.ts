@@ -1,11 +1,13 @@
 import { test } from "@playwright/test";
 import EncryptionManager from "../encryption/encryptionManager";
-import * as envFiles from "../models/envFilePath";
+import EnvConfig from "../utils/envConfig";
 import logger from "../utils/loggerUtil";
 
 test.describe("Generate Secret Key Test Suite", () => {
   test(`Generate Secret Key`, async () => {
-    EncryptionManager.generateAndStoreKey(envFiles.Environments.SECRET_KEY_UAT); // Replace with your desired env from envFilePath under models folder
+    await EncryptionManager.generateAndStoreKey(
+      EnvConfig.getSecretKeyName(EnvConfig.getCurrentEnvironment())
+    ); // Generates the key of the environment selected with ENV, e.g. SECRET_KEY_SIT for ENV=sit
     logger.info(`Secret key generated and saved successfully.`);
   });
 });
@@ -0,0 +1,82 @@
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import FileKeyProvider from "../encryption/keyProviders/fileKeyProvider";
+import CommandKeyProvider from "../encryption/keyProviders/commandKeyProvider";
+import AzureKeyVaultKeyProvider from "../encryption/keyProviders/azureKeyVaultKeyProvider";
+import KeyProviderFactory from "../encryption/keyProviders/keyProviderFactory";
+import MockKeyVaultServer from "../testSupport/mockKeyVaultServer";
+
+test.describe("Key Provider Test Suite", () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "key-provider-"));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test(`File provider stores and reads keys outside the repository`, async () => {
+    const keyFilePath = path.join(tempDir, "keys", "keys.env");
+    const provider = new FileKeyProvider(keyFilePath);
+
+    expect(await provider.getKey("SECRET_KEY_UAT")).toBeUndefined();
+
+    await provider.storeKey("SECRET_KEY_UAT", "uat-key");
+    await provider.storeKey("SECRET_KEY_SIT", "sit-key");
+    await provider.storeKey("SECRET_KEY_UAT", "rotated-uat-key");
+
+    expect(await provider.getKey("SECRET_KEY_UAT")).toBe("rotated-uat-key");
+    expect(await provider.getKey("SECRET_KEY_SIT")).toBe("sit-key");
+    if (process.platform !== "win32") {
+      expect(fs.statSync(keyFilePath).mode & 0o777).toBe(0o600);
+    }
+  });
+
+  test(`Command provider reads the key printed by the command`, async () => {
+    const keyFilePath = path.join(tempDir, "{keyName}.txt");
+    const provider = new CommandKeyProvider(
+      `node -e "process.stdout.write(require('fs').readFileSync(process.argv[1], 'utf8'))" "${keyFilePath}"`,
+      `node -e "require('fs').writeFileSync(process.argv[1], require('fs').readFileSync(0))" "${keyFilePath}"`
+    );
+
+    await provider.storeKey("SECRET_KEY_UAT", "uat-key");
+
+    expect(await provider.getKey("SECRET_KEY_UAT")).toBe("uat-key");
+    await expect(provider.getKey("SECRET_KEY_UAT; echo")).rejects.toThrow(
+      "Invalid secret key name"
+    );
+    await expect(
+      new CommandKeyProvider("echo key").storeKey("SECRET_KEY_UAT", "uat-key")
+    ).rejects.toThrow("read-only");
+  });
+
+  test(`Azure Key Vault provider stores and reads keys as vault secrets`, async () => {
+    const vault = new MockKeyVaultServer();
+    const vaultUrl = await vault.start();
+    try {
+      const provider = new AzureKeyVaultKeyProvider(
+        vaultUrl,
+        MockKeyVaultServer.getCredential()
+      );
+
+      expect(await provider.getKey("SECRET_KEY_UAT")).toBeUndefined();
+
+      await provider.storeKey("SECRET_KEY_UAT", "uat-key");
+
+      expect(vault.secrets.get("secret-key-uat")).toBe("uat-key");
+      expect(await provider.getKey("SECRET_KEY_UAT")).toBe("uat-key");
+    } finally {
+      await vault.stop();
+    }
+  });
+
+  test(`Factory rejects unknown providers`, async () => {
+    expect(() => KeyProviderFactory.getProvider("keyring")).toThrow(
+      "Unknown key provider: keyring"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { test } from "@playwright/test";
+import EncryptionManager from "../encryption/encryptionManager";
+import EnvConfig from "../utils/envConfig";
+import ENV from "../utils/envVariables";
+import logger from "../utils/loggerUtil";
+
+test.describe("Recipients Test Suite", () => {
+  // Changes the environment file selected with ENV (e.g. ENV=sit), so it only runs when asked to
+  test.skip(!process.env.RECIPIENT_ACTION, "Set RECIPIENT_ACTION to manage recipients.");
+
+  test(`Manage Recipients`, async () => {
+    // RECIPIENT_ACTION is one of: enable, add, remove, rotate, list
+    // e.g. RECIPIENT_ACTION=add RECIPIENT_ID=ci RECIPIENT_KEY=<key of the CI pipeline>
+    // remove and rotate replace the data key, which needs the secret keys of the other remaining
+    // recipients as JSON, e.g. RECIPIENT_KEYS='{"ci":"<key of the CI pipeline>"}'.
+    // Set RECIPIENT_ROTATE=false to remove a recipient without rotating the data key.
+    const action = process.env.RECIPIENT_ACTION!;
+    const recipientId = process.env.RECIPIENT_ID ?? "";
+    const envFileName = EnvConfig.getEnvFileName(EnvConfig.getCurrentEnvironment());
+    const rotation = {
+      secretKey: ENV.SECRET_KEY,
+      recipientKeys: JSON.parse(process.env.RECIPIENT_KEYS ?? "{}"),
+    };
+
+    if (["enable", "add", "remove"].includes(action) && !recipientId) {
+      throw new Error(`Set RECIPIENT_ID to ${action} a recipient.`);
+    }
+
+    switch (action) {
+      case "enable":
+        EncryptionManager.enableEnvelopeEncryption(envFileName, ENV.SECRET_KEY, recipientId);
+        break;
+      case "add":
+        if (!process.env.RECIPIENT_KEY) {
+          throw new Error("Set RECIPIENT_KEY to the secret key of the new recipient.");
+        }
+        EncryptionManager.addRecipient(
+          envFileName,
+          ENV.SECRET_KEY,
+          recipientId,
+          process.env.RECIPIENT_KEY
+        );
+        break;
+      case "remove":
+        EncryptionManager.removeRecipient(
+          envFileName,
+          recipientId,
+          process.env.RECIPIENT_ROTATE === "false" ? undefined : rotation
+        );
+        break;
+      case "rotate":
+        EncryptionManager.rotateDataKey(envFileName, rotation);
+        break;
+      case "list":
+        break;
+      default:
+        throw new Error(
+          `Unknown RECIPIENT_ACTION: ${action}. Expected enable, add, remove, rotate or list.`
+        );
+    }
+
+    logger.info(
+      `Recipients of ${envFileName}: ${EncryptionManager.listRecipients(envFileName).join(", ")}`
+    );
+  });
+});
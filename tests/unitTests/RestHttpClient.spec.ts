@@ -0,0 +1,233 @@
+import { test, expect } from "@playwright/test";
+import RestHttpClient from "../apiTests/core/restHttpClient";
+import MockApiServer from "../testSupport/mockApiServer";
+import RetryHandler from "../apiTests/core/retryHandler";
+import { HttpMethod } from "../models/utilityEnums";
+
+test.describe("Rest Http Client Test Suite", () => {
+  const client = new RestHttpClient();
+  let server: MockApiServer;
+
+  test.beforeEach(async () => {
+    server = new MockApiServer();
+    await server.start();
+  });
+
+  test.afterEach(async () => {
+    await server.stop();
+  });
+
+  test(`Every method is sent, with a body only when one is given`, async () => {
+    for (const method of Object.values(HttpMethod)) {
+      const body = [HttpMethod.POST, HttpMethod.PUT, HttpMethod.PATCH].includes(method)
+        ? { name: "widget" }
+        : undefined;
+      const response = await client.request({ method, url: server.url("/items"), body });
+      expect(response.status, method).toBe(200);
+    }
+
+    expect(server.requests.map((request) => request.method)).toEqual(Object.values(HttpMethod));
+    for (const request of server.requests) {
+      const hasBody = ["POST", "PUT", "PATCH"].includes(request.method);
+      expect(request.body, request.method).toBe(hasBody ? `{"name":"widget"}` : "");
+    }
+  });
+
+  test(`Wrappers send the payload and the authorization header`, async () => {
+    await client.sendPostRequest(server.url("/items"), { id: 1 }, "Bearer token");
+    await client.sendPutRequest(server.url("/items/1"), { id: 1 });
+    await client.sendPatchRequest(server.url("/items/1"), { name: "renamed" });
+    const response = await client.sendGetRequest<{ query: Record<string, string[]> }>(
+      server.url("/items"),
+      undefined,
+      { page: 2 }
+    );
+    await client.sendDeleteRequest(server.url("/items/1"), "Bearer token");
+
+    expect(response.data.query).toEqual({ page: ["2"] });
+    expect(server.requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      "POST /items",
+      "PUT /items/1",
+      "PATCH /items/1",
+      "GET /items?page=2",
+      "DELETE /items/1",
+    ]);
+    expect(server.requests[0].headers.authorization).toBe("Bearer token");
+    expect(server.requests[1].headers.authorization).toBeUndefined();
+    expect(server.requests[4].body).toBe("");
+  });
+
+  test(`Query parameters are encoded, repeated and appended`, async () => {
+    expect(
+      RestHttpClient.buildUrl("https://api.test/search?v=1#results", {
+        q: "a&b c/ü",
+        ids: [1, 2, null],
+        active: true,
+        empty: "",
+        skipped: undefined,
+        since: new Date(Date.UTC(2024, 0, 31)),
+      })
+    ).toBe(
+      "https://api.test/search?v=1&q=a%26b%20c%2F%C3%BC&ids=1&ids=2&active=true&empty=&since=2024-01-31T00%3A00%3A00.000Z#results"
+    );
+    expect(RestHttpClient.buildUrl("/search?", { q: "x" })).toBe("/search?q=x");
+    expect(RestHttpClient.buildUrl("/search", {})).toBe("/search");
+
+    await client.request({ method: HttpMethod.GET, url: server.url("/search"), query: { q: "a&b" } });
+    expect(server.requests[0].query).toEqual({ q: ["a&b"] });
+  });
+
+  test(`Responses carry the final URL and duration, also for error statuses`, async () => {
+    server
+      .route("GET", "/old", () => ({ status: 302, headers: { Location: "/new?x=1" } }))
+      .route("GET", "/new", () => ({ body: { moved: true }, delayMs: 50 }))
+      .route("GET", "/missing", () => ({ status: 404, body: { error: "Not found" } }));
+
+    const redirected = await client.request({ method: HttpMethod.GET, url: server.url("/old") });
+    expect(redirected.data).toEqual({ moved: true });
+    expect(redirected.metadata).toMatchObject({
+      method: HttpMethod.GET,
+      url: server.url("/new?x=1"),
+    });
+    expect(redirected.metadata.durationMs).toBeGreaterThanOrEqual(45);
+    expect(Date.parse(redirected.metadata.startedAt)).not.toBeNaN();
+
+    const missing = await client.request({ method: HttpMethod.GET, url: server.url("/missing") });
+    expect(missing.status).toBe(404);
+    expect(missing.metadata.url).toBe(server.url("/missing"));
+  });
+
+  test(`Per-request options are applied`, async () => {
+    server
+      .route("GET", "/slow", () => ({ body: "late", delayMs: 500 }))
+      .route("GET", "/text", () => ({ body: "plain text" }));
+
+    const text = await client.request<string>({
+      method: HttpMethod.GET,
+      url: server.url("/text"),
+      headers: { "X-Request-Id": "abc" },
+      responseType: "text",
+    });
+    expect(text.data).toBe("plain text");
+    expect(server.requests[0].headers["x-request-id"]).toBe("abc");
+
+    await expect(
+      client.request({
+        method: HttpMethod.GET,
+        url: server.url("/slow"),
+        timeout: 50,
+        retry: { maxAttempts: 1 },
+      })
+    ).rejects.toThrow("timeout");
+
+    const controller = new AbortController();
+    const aborted = client.request({
+      method: HttpMethod.GET,
+      url: server.url("/slow"),
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(aborted).rejects.toThrow("canceled");
+  });
+
+  test(`Retryable failures are retried until they succeed`, async () => {
+    const statuses = [503, 502, 200];
+    server.route("GET", "/flaky", () => ({ status: statuses.shift() }));
+    const retryingClient = new RestHttpClient({ baseDelayMs: 10, jitter: false });
+
+    const response = await retryingClient.request({
+      method: HttpMethod.GET,
+      url: server.url("/flaky"),
+    });
+    expect(response.status).toBe(200);
+    expect(response.metadata.attempts).toBe(3);
+    // backoff of 10ms and 20ms between the attempts
+    expect(response.metadata.durationMs).toBeGreaterThanOrEqual(30);
+
+    server.route("GET", "/down", () => ({ status: 502 }));
+    const failed = await retryingClient.request({
+      method: HttpMethod.GET,
+      url: server.url("/down"),
+      retry: { maxAttempts: 2 },
+    });
+    expect(failed.status).toBe(502);
+    expect(failed.metadata.attempts).toBe(2);
+  });
+
+  test(`Non-idempotent and non-retryable requests are sent once`, async () => {
+    server
+      .route("POST", "/orders", () => ({ status: 503 }))
+      .route("GET", "/missing", () => ({ status: 404 }));
+    const retryingClient = new RestHttpClient({ baseDelayMs: 10 });
+
+    const post = await retryingClient.sendPostRequest(server.url("/orders"), {});
+    expect(post.metadata.attempts).toBe(1);
+    const missing = await retryingClient.request({
+      method: HttpMethod.GET,
+      url: server.url("/missing"),
+    });
+    expect(missing.metadata.attempts).toBe(1);
+
+    const optedIn = await retryingClient.request({
+      method: HttpMethod.POST,
+      url: server.url("/orders"),
+      body: {},
+      retry: { retryNonIdempotent: true, maxAttempts: 2 },
+    });
+    expect(optedIn.metadata.attempts).toBe(2);
+    expect(server.requests.map((request) => request.path)).toEqual([
+      "/orders",
+      "/missing",
+      "/orders",
+      "/orders",
+    ]);
+  });
+
+  test(`Retry-After is honoured and network errors are retried`, async () => {
+    const responses = [{ status: 429, headers: { "Retry-After": "1" } }, { status: 200 }];
+    server.route("GET", "/limited", () => responses.shift()!);
+    const retryingClient = new RestHttpClient({ baseDelayMs: 10 });
+
+    const limited = await retryingClient.request({
+      method: HttpMethod.GET,
+      url: server.url("/limited"),
+    });
+    expect(limited.metadata.attempts).toBe(2);
+    expect(limited.metadata.durationMs).toBeGreaterThanOrEqual(1000);
+
+    // a Retry-After beyond the maximum delay is not waited for
+    server.route("GET", "/maintenance", () => ({ status: 503, headers: { "Retry-After": "3600" } }));
+    const maintenance = await retryingClient.request({
+      method: HttpMethod.GET,
+      url: server.url("/maintenance"),
+    });
+    expect(maintenance.metadata.attempts).toBe(1);
+
+    const closedUrl = server.url("/closed");
+    await server.stop();
+    const start = Date.now();
+    await expect(
+      retryingClient.request({ method: HttpMethod.GET, url: closedUrl, retry: { jitter: false } })
+    ).rejects.toThrow();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(30);
+    await server.start();
+  });
+
+  test(`Retry delays back off exponentially with jitter`, async () => {
+    const policy = RetryHandler.resolvePolicy({ baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+    expect([1, 2, 3, 4, 5].map((attempt) => RetryHandler.getBackoffDelay(attempt, policy))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+
+    for (let i = 0; i < 20; i++) {
+      const delay = RetryHandler.getBackoffDelay(3, { ...policy, jitter: true });
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+
+    const now = Date.parse("2024-01-31T12:00:00Z");
+    expect(RetryHandler.parseRetryAfter("120", now)).toBe(120_000);
+    expect(RetryHandler.parseRetryAfter("Wed, 31 Jan 2024 12:00:30 GMT", now)).toBe(30_000);
+    expect(RetryHandler.parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
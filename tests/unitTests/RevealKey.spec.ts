@@ -0,0 +1,25 @@
+import { test } from "@playwright/test";
+import EncryptionManager from "../encryption/encryptionManager";
+import EnvConfig from "../utils/envConfig";
+import ENV from "../utils/envVariables";
+
+test.describe("Reveal Environment Variable Test Suite", () => {
+  test(`Reveal Environment Variable`, async () => {
+    // Set REVEAL_KEY to reveal a comma-separated list of keys, otherwise the whole file is exported.
+    // Decrypted values are only ever written to a temporary file readable by the current user:
+    // the output of this test is kept by the reporters, so only the path of the file is printed.
+    const keyNames = process.env.REVEAL_KEY?.split(",")
+      .map((keyName) => keyName.trim())
+      .filter(Boolean);
+    const envFileName = EnvConfig.getEnvFileName(
+      EnvConfig.getCurrentEnvironment()
+    ); // Reveals from the environment selected with ENV, e.g. ENV=sit
+
+    const exportPath = EncryptionManager.exportDecryptedEnvironment(
+      envFileName,
+      ENV.SECRET_KEY,
+      keyNames?.length ? keyNames : undefined
+    );
+    process.stdout.write(`Decrypted copy: ${exportPath}\n`);
+  });
+});
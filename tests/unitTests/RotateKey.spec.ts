@@ -0,0 +1,17 @@
+import { test } from "@playwright/test";
+import EncryptionManager from "../encryption/encryptionManager";
+import EnvConfig from "../utils/envConfig";
+import ENV from "../utils/envVariables";
+import logger from "../utils/loggerUtil";
+
+test.describe("Rotate Secret Key Test Suite", () => {
+  test(`Rotate Secret Key`, async () => {
+    const env = EnvConfig.getCurrentEnvironment();
+    await EncryptionManager.rotateSecretKey(
+      EnvConfig.getEnvFileName(env),
+      EnvConfig.getSecretKeyName(env),
+      ENV.SECRET_KEY
+    ); // Rotates the key of the environment selected with ENV, e.g. ENV=sit, in the configured key provider
+    logger.info(`Secret key rotated successfully.`);
+  });
+});
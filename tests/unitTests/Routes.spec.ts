@@ -0,0 +1,63 @@
+import { test, expect } from "@playwright/test";
+import BaseRoutes from "../apiTests/endpoints/baseRoutes";
+
+class TestRoutes extends BaseRoutes {
+  public readonly users = this.defineRoutes({
+    list: { path: "/users" },
+    get: { path: "/users/:id" },
+    order: { path: "/users/:userId/orders/:orderId", version: "v2" },
+    health: { path: "/health", version: null },
+    avatar: { path: "/users/:id/avatar.:format" },
+  });
+}
+
+test.describe("Routes Test Suite", () => {
+  const routes = new TestRoutes("https://api.test/base");
+
+  test(`Route builders fill in path parameters and the query`, async () => {
+    expect(routes.users.list()).toBe("https://api.test/base/users");
+    expect(routes.users.list({ query: { page: 2, tags: ["a b", "c"] } })).toBe(
+      "https://api.test/base/users?page=2&tags=a%20b&tags=c"
+    );
+    expect(routes.users.get({ params: { id: 42 } })).toBe("https://api.test/base/users/42");
+    expect(routes.users.get({ params: { id: "a/b?c" } })).toBe(
+      "https://api.test/base/users/a%2Fb%3Fc"
+    );
+    expect(routes.users.order({ params: { userId: 7, orderId: "x-1" } })).toBe(
+      "https://api.test/base/v2/users/7/orders/x-1"
+    );
+    expect(routes.users.health()).toBe("https://api.test/base/health");
+    expect(routes.users.avatar({ params: { id: 42, format: "png" } })).toBe(
+      "https://api.test/base/users/42/avatar.png"
+    );
+
+    // @ts-expect-error path parameter id is required
+    expect(() => routes.users.get()).toThrow();
+    // @ts-expect-error orderId is missing
+    expect(() => routes.users.order({ params: { userId: 7 } })).toThrow(
+      'Missing value of path parameter "orderId"'
+    );
+    // @ts-expect-error parameter names end before the extension, as they do in buildPath
+    expect(() => routes.users.avatar({ params: { id: 42, "format.png": "png" } })).toThrow(
+      'Missing value of path parameter "format"'
+    );
+    // @ts-expect-error unknown route
+    expect(routes.users.remove).toBeUndefined();
+  });
+
+  test(`Base paths are kept when joining URLs`, async () => {
+    expect(BaseRoutes.joinUrl("https://api.test/base", "users")).toBe(
+      "https://api.test/base/users"
+    );
+    expect(BaseRoutes.joinUrl("https://api.test/base/", "/users/")).toBe(
+      "https://api.test/base/users/"
+    );
+    expect(BaseRoutes.joinUrl("https://api.test", "", "v1", "/users")).toBe(
+      "https://api.test/v1/users"
+    );
+    expect(BaseRoutes.joinUrl("https://api.test/base")).toBe("https://api.test/base");
+    expect(() => BaseRoutes.joinUrl("/relative", "users")).toThrow();
+
+    expect(routes.generateUrl("users/1", "User")).toBe("https://api.test/base/users/1");
+  });
+});
@@ -0,0 +1,37 @@
+import { AccessToken, DefaultAzureCredential, TokenCredential } from "@azure/identity";
+import logger from "./loggerUtil";
+
+export default class AzureTokenUtil {
+  // Shared, so the credential chain is only resolved once per run
+  private static defaultCredential?: DefaultAzureCredential;
+
+  /**
+   * Returns the DefaultAzureCredential shared by the database connection, the Azure Key Vault
+   * key provider and the Azure API auth provider.
+   *
+   * @returns The credential.
+   */
+  public static getDefaultCredential(): DefaultAzureCredential {
+    return (this.defaultCredential ??= new DefaultAzureCredential());
+  }
+
+  /**
+   * Retrieves an access token for the given scope using Azure identity credentials.
+   *
+   * @param scope - The resource or scope, e.g. https://database.windows.net/ or api://my-api/.default.
+   * @param credential - The credential used to get the token. Defaults to DefaultAzureCredential.
+   * @returns A promise that resolves to the access token and its expiry.
+   * @throws Will throw an error if there is an issue retrieving the token.
+   */
+  public static async getAccessToken(
+    scope: string,
+    credential: TokenCredential = this.getDefaultCredential()
+  ): Promise<AccessToken> {
+    const tokenResponse = await credential.getToken(scope);
+    if (!tokenResponse) {
+      throw new Error("Failed to retrieve token response");
+    }
+    logger.info(`Access token retrieved successfully.`);
+    return tokenResponse;
+  }
+}
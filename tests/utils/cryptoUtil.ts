@@ -3,11 +3,27 @@ import * as crypto from "crypto";
 import errorHandler from "../helpers/errorHandler";
 import * as interfaces from "../models/interfaces";
 import * as appSettings from "../config/appSettings.json";
-import { FileEncoding } from "../models/utilityEnums";
+import KeyDerivationUtil from "./keyDerivationUtil";
+import { UnsupportedVersionError } from "../helpers/cryptoErrorTypes";
+import {
+  CipherAlgorithm,
+  FileEncoding,
+  KeyDerivationFunction,
+} from "../models/utilityEnums";
 
 export default class CryptoUtil {
   private static BASE_64: BufferEncoding = FileEncoding.BASE64; // base64 encoding as buffer encoding
 
+  // Version 0 values do not store their iteration count, so it must never change
+  private static readonly LEGACY_PBKDF2_ITERATIONS = 100000;
+
+  private static readonly KEY_CHECK_VALUE_LENGTH = 16; // hex characters
+
+  private static readonly PASSWORD_HASH_PREFIX = "$scrypt$";
+  private static readonly MIN_PASSWORD_HASH_LENGTH = 16; // bytes
+  private static readonly PASSWORD_HASH_REGEX =
+    /^\$scrypt\$N=(\d+),r=(\d+),p=(\d+)\$([A-Za-z0-9+/]+={0,2})\$([A-Za-z0-9+/]+={0,2})$/;
+
   /**
    * Generates a cryptographically secure initialization vector of the specified length as a base64 string.
    * @param length The length of the IV to generate in bytes. Defaults to the default IV length.
@@ -99,7 +115,8 @@ export default class CryptoUtil {
   }
 
   /**
-   * Derives a key from the given secret key and salt using PBKDF2.
+   * Derives the key of a version 0 value from the given secret key and salt using PBKDF2
+   * with the fixed legacy iteration count.
    *
    * @param secretKey - The secret key to use for derivation.
    * @param salt - The salt to use for derivation.
@@ -112,7 +129,7 @@ export default class CryptoUtil {
     try {
       return CryptoJS.PBKDF2(secretKey, CryptoJS.enc.Base64.parse(salt), {
         keySize: 256 / 32,
-        iterations: appSettings.KEY_DERIVATION.iterations,
+        iterations: this.LEGACY_PBKDF2_ITERATIONS,
       });
     } catch (error) {
       errorHandler.logGeneralError(error, "deriveKey", "Failed to derive key.");
@@ -120,6 +137,160 @@ export default class CryptoUtil {
     }
   }
 
+  /**
+   * Derives separate encryption and MAC keys from the given secret key and salt using the
+   * given key derivation function. A single 64 byte output is split in two, so the MAC key
+   * is never the key used for encryption.
+   *
+   * @param secretKey - The secret key to use for derivation.
+   * @param salt - The base64 salt to use for derivation.
+   * @param kdf - The name of the key derivation function, e.g. "pbkdf2-sha256" or "scrypt".
+   * @param kdfParams - The parameters of the key derivation function.
+   * @returns The 32 byte encryption key and the 32 byte MAC key.
+   */
+  public static deriveKeys(
+    secretKey: string,
+    salt: string,
+    kdf: string,
+    kdfParams: interfaces.KdfParams
+  ): interfaces.DerivedKeys {
+    try {
+      const keyLength = appSettings.PARAMETER_LENGTHS.KEY_LENGTH;
+      const derivedKey = KeyDerivationUtil.derive(
+        kdf,
+        secretKey,
+        Buffer.from(salt, this.BASE_64),
+        keyLength * 2,
+        kdfParams
+      );
+
+      return {
+        encryptionKey: derivedKey.subarray(0, keyLength),
+        macKey: derivedKey.subarray(keyLength),
+      };
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "deriveKeys",
+        "Failed to derive keys."
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the key derivation parameters a versioned envelope was created with.
+   * Version 1 envelopes only store the PBKDF2-SHA256 iteration count.
+   *
+   * @param envelope - The envelope to get the parameters of.
+   * @returns The key derivation parameters.
+   */
+  public static getKdfParams(
+    envelope: Pick<interfaces.EncryptionEnvelope, "v" | "iter" | "kdfParams">
+  ): interfaces.KdfParams {
+    return envelope.v === 1
+      ? { iterations: envelope.iter! }
+      : { ...envelope.kdfParams };
+  }
+
+  /**
+   * Returns the header of a versioned envelope: the version, algorithm, key derivation
+   * function and its parameters. The header is authenticated by both the GCM tag and the MAC,
+   * so none of the parameters can be changed without detection.
+   *
+   * @param envelope - The envelope to get the header of.
+   * @returns The header as a colon separated string.
+   */
+  public static getEnvelopeHeader(
+    envelope: Pick<
+      interfaces.EncryptionEnvelope,
+      "v" | "alg" | "kdf" | "iter" | "kdfParams"
+    >
+  ): string {
+    const kdfParams =
+      envelope.v === 1
+        ? `${envelope.iter}`
+        : Object.keys(envelope.kdfParams ?? {})
+            .sort()
+            .map((param) => `${param}=${envelope.kdfParams![param]}`)
+            .join(";");
+    return `${envelope.v}:${envelope.alg}:${envelope.kdf}:${kdfParams}`;
+  }
+
+  /**
+   * Generates the HMAC-SHA256 message authentication code of a versioned envelope
+   * over its header, salt, IV, ciphertext and authentication tag, using the MAC key.
+   *
+   * @param envelope - The envelope to authenticate, without its MAC.
+   * @param macKey - The MAC key derived with `deriveKeys`.
+   * @returns The generated MAC as a hex string.
+   */
+  public static generateEnvelopeMac(
+    envelope: Omit<interfaces.EncryptionEnvelope, "mac">,
+    macKey: Buffer
+  ): string {
+    try {
+      return crypto
+        .createHmac("sha256", macKey)
+        .update(
+          `${this.getEnvelopeHeader(envelope)}:${envelope.salt}:${envelope.iv}:${envelope.cipherText}:${envelope.tag}`
+        )
+        .digest("hex");
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "generateEnvelopeMac",
+        "Failed to generate MAC."
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generates the key check value of a MAC key: a short HMAC of a fixed label that identifies
+   * the secret key a value was encrypted with, without revealing it. A mismatch means the value
+   * was encrypted under another key rather than tampered with.
+   *
+   * @param macKey - The MAC key derived with `deriveKeys`.
+   * @returns The key check value as a hex string.
+   */
+  public static generateKeyCheckValue(macKey: Buffer): string {
+    try {
+      return crypto
+        .createHmac("sha256", macKey)
+        .update("key-check-value")
+        .digest("hex")
+        .slice(0, this.KEY_CHECK_VALUE_LENGTH);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "generateKeyCheckValue",
+        "Failed to generate key check value."
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Compares two MACs (or key check values) in constant time, so the comparison does not
+   * reveal how many leading characters match.
+   *
+   * @param expected - The MAC computed from the secret key.
+   * @param actual - The MAC stored with the encrypted data.
+   * @returns True if both are equal, otherwise false.
+   */
+  public static macEquals(expected: string, actual: string | undefined): boolean {
+    if (typeof actual !== "string") {
+      return false;
+    }
+    const expectedBuffer = Buffer.from(expected, FileEncoding.UTF8);
+    const actualBuffer = Buffer.from(actual, FileEncoding.UTF8);
+    return (
+      expectedBuffer.length === actualBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, actualBuffer)
+    );
+  }
+
   /**
    * Generates a message authentication code (MAC) using the HMAC-SHA256 algorithm
    * given the salt, initialization vector, ciphertext, and key.
@@ -157,21 +328,63 @@ export default class CryptoUtil {
   /**
    * Validates the parsed data to ensure all required properties are present.
    *
-   * The required properties are salt, iv, cipherText, and mac.
+   * The required properties are salt, iv, cipherText, and mac. Versioned envelopes
+   * also require a tag, a supported alg and a registered kdf with valid parameters.
    *
    * @param parsedData - The parsed data to validate.
-   * @throws Error - If any of the required properties are missing.
+   * @throws MalformedCiphertextError - If any of the required properties are missing.
+   * @throws UnsupportedVersionError - If the algorithm or key derivation function is not supported.
    */
   public static validateParsedData(
     parsedData: interfaces.EncryptionParams
   ): void {
     try {
       const { salt, iv, cipherText, mac } = parsedData;
-      if (!salt || !iv || !cipherText || !mac) {
-        errorHandler.logAndThrowError(
-          "Missing required properties in encrypted data."
+      const isEnvelope = "v" in parsedData;
+
+      // GCM has no padding, so an empty value has an empty ciphertext
+      const hasCipherText = isEnvelope
+        ? typeof cipherText === "string"
+        : Boolean(cipherText);
+      if (!salt || !iv || !hasCipherText || !mac) {
+        errorHandler.handleInvalidCipherFormat(
+          "missing required properties in encrypted data."
         );
       }
+
+      // Versioned envelopes also carry their algorithm parameters
+      if (isEnvelope) {
+        const envelope = parsedData as interfaces.EncryptionEnvelope;
+        if (!envelope.tag) {
+          errorHandler.handleInvalidCipherFormat(
+            "missing authentication tag in encrypted data."
+          );
+        }
+        if (envelope.alg !== CipherAlgorithm.AES_256_GCM) {
+          errorHandler.logAndThrowCryptoError(
+            new UnsupportedVersionError(`Unsupported algorithm: ${envelope.alg}`)
+          );
+        }
+        if (
+          !KeyDerivationUtil.isSupported(envelope.kdf) ||
+          (envelope.v === 1 &&
+            envelope.kdf !== KeyDerivationFunction.PBKDF2_SHA256)
+        ) {
+          errorHandler.logAndThrowCryptoError(
+            new UnsupportedVersionError(
+              `Unsupported key derivation function: ${envelope.kdf}`
+            )
+          );
+        }
+        try {
+          KeyDerivationUtil.validateParams(
+            envelope.kdf,
+            this.getKdfParams(envelope)
+          );
+        } catch (error) {
+          errorHandler.handleInvalidCipherFormat((error as Error).message);
+        }
+      }
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -181,4 +394,86 @@ export default class CryptoUtil {
       throw error;
     }
   }
+
+  /**
+   * Hashes a password with scrypt for seeding users, e.g. in the database. The result is a
+   * self-describing string in the style of bcrypt hashes, holding the scrypt parameters, the
+   * random salt and the hash, so it can be verified after PASSWORD_HASHING changes:
+   * `$scrypt$N=16384,r=8,p=1$<salt>$<hash>`.
+   *
+   * @param password - The password to hash.
+   * @returns The password hash.
+   * @throws {Error} If an error occurs during hashing.
+   */
+  public static hashPassword(password: string): string {
+    try {
+      const { cost, blockSize, parallelization } = appSettings.PASSWORD_HASHING;
+      const salt = crypto.randomBytes(appSettings.PARAMETER_LENGTHS.SALT_LENGTH);
+      const hash = KeyDerivationUtil.derive(
+        KeyDerivationFunction.SCRYPT,
+        password,
+        salt,
+        appSettings.PARAMETER_LENGTHS.KEY_LENGTH,
+        { cost, blockSize, parallelization }
+      );
+
+      return `${this.PASSWORD_HASH_PREFIX}N=${cost},r=${blockSize},p=${parallelization}$${salt.toString(
+        this.BASE_64
+      )}$${hash.toString(this.BASE_64)}`;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "hashPassword",
+        "Failed to hash password."
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Verifies a password against a hash created by `hashPassword`, using the parameters stored
+   * in the hash. The comparison runs in constant time.
+   *
+   * @param password - The password to verify.
+   * @param passwordHash - The stored password hash.
+   * @returns True if the password matches the hash, otherwise false.
+   * @throws {Error} If the hash is not a valid scrypt password hash.
+   */
+  public static verifyPassword(password: string, passwordHash: string): boolean {
+    try {
+      const match = this.PASSWORD_HASH_REGEX.exec(passwordHash);
+      if (!match) {
+        errorHandler.logAndThrowError(
+          "Invalid password hash. Expected $scrypt$N=<cost>,r=<blockSize>,p=<parallelization>$<salt>$<hash>."
+        );
+      }
+
+      const [, cost, blockSize, parallelization, salt, hash] = match;
+      const expected = Buffer.from(hash, this.BASE_64);
+      if (expected.length < this.MIN_PASSWORD_HASH_LENGTH) {
+        errorHandler.logAndThrowError(
+          `Invalid password hash. The hash must be at least ${this.MIN_PASSWORD_HASH_LENGTH} bytes.`
+        );
+      }
+      const actual = KeyDerivationUtil.derive(
+        KeyDerivationFunction.SCRYPT,
+        password,
+        Buffer.from(salt, this.BASE_64),
+        expected.length,
+        {
+          cost: Number(cost),
+          blockSize: Number(blockSize),
+          parallelization: Number(parallelization),
+        }
+      );
+      return crypto.timingSafeEqual(expected, actual);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "verifyPassword",
+        "Failed to verify password."
+      );
+      throw error;
+    }
+  }
 }
@@ -4,20 +4,60 @@ import errorHandler from "../helpers/errorHandler";
 import path from "path";
 import fs from "fs";
 import logger from "./loggerUtil";
+import SecretRedactor from "./secretRedactor";
+import CryptoManager from "../helpers/cryptoManager";
+import EnvelopeManager from "../helpers/envelopeManager";
+import EnvFileParser from "./envFileParser";
+import KeyProviderFactory from "../encryption/keyProviders/keyProviderFactory";
+import * as appSettings from "../config/appSettings.json";
+import * as interfaces from "../models/interfaces";
 
 export default class EnvConfig {
+  // Names of the variables that were decrypted in memory while loading the environment
+  private static decryptedKeys = new Set<string>();
+
+  // Where the effective value of every variable declared in an environment file came from
+  private static valueSources = new Map<string, interfaces.EnvValueSource>();
+
+  // Envelope headers of the loaded files that use envelope encryption, by file
+  private static envelopeHeaders = new Map<string, interfaces.EnvelopeHeader>();
+
+  // Names of the variables that were already set before any environment file was loaded
+  private static processEnvKeys?: Set<string>;
+
+  private static readonly LOCAL_FILE_SUFFIX = ".local";
+
+  // Suffixes of files next to the environment files that are not environments, e.g. the
+  // .env.bak backup and .tmp files written while rotating keys
+  private static readonly NON_ENVIRONMENT_SUFFIXES = [
+    "bak",
+    "tmp",
+    "local",
+    "example",
+    "sample",
+  ];
+  private static readonly PROCESS_ENV_SOURCE = "process.env";
+
   /**
    * Initializes the environment configuration.
    * This function ensures that the environment directory exists, validates the base environment file
    * if it exists, loads the base environment variables, and determines the current environment.
+   * The environment is then loaded in layers, each overriding the previous one:
+   * `.env`, the files of the environments it extends (see ENVIRONMENTS in appSettings.json),
+   * `.env.<env>` and finally the untracked per-developer `.env.<env>.local`.
+   * Secret keys that are not set are then read from the configured key provider
+   * (see KEY_PROVIDER in appSettings.json) before the encrypted values are decrypted.
    * If the base environment file does not exist, a warning message is logged.
    * If an error occurs during the setup process, an error is logged and thrown.
    */
-  public static initEnvConfiguration() {
+  public static async initEnvConfiguration(): Promise<void> {
     try {
       // ensure the environment directory exists
       EnvConfig.ensureEnvDirExists();
 
+      // remember what was set in the shell before any file is loaded
+      EnvConfig.processEnvKeys ??= new Set(Object.keys(process.env));
+
       // base env file path
       const baseEnvFilePath = path.resolve(
         envFiles.Environments.ENV_DIR,
@@ -33,10 +73,18 @@ export default class EnvConfig {
       // load base environment variables
       const env = EnvConfig.loadEnv();
 
-      // determine the current environment
-      EnvConfig.loadEnvFile(
-        envFiles.ENV_FILES[env as keyof typeof envFiles.ENV_FILES]
-      );
+      // load the inherited, environment-specific and local override files
+      EnvConfig.loadEnvLayers(env);
+
+      // read the secret keys that are not set from the key provider
+      await EnvConfig.loadSecretKeys(env);
+
+      // decrypt encrypted values in memory, the files on disk stay encrypted
+      EnvConfig.decryptEnvironmentVariables(env);
+
+      if (process.env.ENV_PRINT_SOURCES === "true") {
+        EnvConfig.printValueSources();
+      }
     } catch (error) {
       errorHandler.logGeneralError(
         error,
@@ -47,20 +95,320 @@ export default class EnvConfig {
     }
   }
 
+  /**
+   * Returns the names of the environment variables that were stored encrypted
+   * and decrypted in memory during initialization.
+   *
+   * @returns The names of the decrypted environment variables.
+   */
+  public static getDecryptedKeys(): string[] {
+    return [...EnvConfig.decryptedKeys];
+  }
+
+  /**
+   * Checks whether the effective value of a variable was loaded from an environment file,
+   * rather than set in the shell or by the CI pipeline.
+   *
+   * @param key - The name of the variable.
+   * @returns True if the value came from an environment file, otherwise false.
+   */
+  public static isLoadedFromFile(key: string): boolean {
+    const source = EnvConfig.valueSources.get(key)?.source;
+    return source !== undefined && source !== EnvConfig.PROCESS_ENV_SOURCE;
+  }
+
+  /**
+   * Returns where the effective value of every variable declared in an environment file came
+   * from: the file that was loaded last for it, or "process.env" when the value set in the
+   * shell took precedence. Values are never included.
+   *
+   * @returns The source of every variable, by variable name.
+   */
+  public static getValueSources(): Record<string, string> {
+    return Object.fromEntries(
+      [...EnvConfig.valueSources.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, { source }]) => [key, source])
+    );
+  }
+
+  /**
+   * Logs where the effective value of every variable came from, one variable per line,
+   * without the values. This runs during initialization when ENV_PRINT_SOURCES=true.
+   */
+  public static printValueSources(): void {
+    try {
+      const sources = Object.entries(EnvConfig.getValueSources());
+      const width = Math.max(0, ...sources.map(([key]) => key.length));
+      const rows = sources.map(
+        ([key, source]) => `  ${key.padEnd(width)}  <- ${source}`
+      );
+
+      logger.info(
+        `Effective environment variable sources (precedence: ${EnvConfig.getProcessEnvPrecedence()}):\n${rows.join(
+          "\n"
+        )}`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "printValueSources",
+        "Failed to print environment variable sources"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the secret keys of the given environment and of the environments it extends from
+   * the configured key provider, for every key that is not already set. Keys read from the
+   * provider are set in process.env only, and recorded as such in the value sources.
+   * Nothing is read when the provider is the environment itself.
+   *
+   * @param env - The current environment.
+   * @throws {Error} If the provider cannot be created or a key cannot be read.
+   */
+  private static async loadSecretKeys(env: string): Promise<void> {
+    try {
+      if (KeyProviderFactory.getConfiguredType() === "env") {
+        return;
+      }
+
+      const provider = KeyProviderFactory.getProvider();
+      const environments = [
+        ...EnvConfig.resolveInheritedEnvironments(env),
+        env,
+      ];
+
+      for (const secretKeyName of environments.map(
+        EnvConfig.getSecretKeyName
+      )) {
+        if (process.env[secretKeyName]) {
+          continue;
+        }
+
+        const secretKey = await provider.getKey(secretKeyName);
+        if (secretKey) {
+          process.env[secretKeyName] = secretKey;
+          EnvConfig.valueSources.set(secretKeyName, {
+            source: `key provider (${provider.type})`,
+          });
+          logger.info(
+            `Secret key '${secretKeyName}' loaded from the ${provider.type} key provider.`
+          );
+        }
+      }
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "loadSecretKeys",
+        "Failed to load secret keys from the key provider"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypts every loaded environment variable whose value is stored in the encrypted
+   * JSON format. A value is decrypted with the secret key of the environment whose file it
+   * was loaded from (e.g. SECRET_KEY_COMMON for `.env.common`) when that key is set, and
+   * with the secret key of the given environment (e.g. SECRET_KEY_UAT) otherwise.
+   * Values from a file that uses envelope encryption are decrypted with the data key of
+   * the file, which is unwrapped with that secret key (the key of any of its recipients).
+   * The plaintext replaces the encrypted value in process.env only, so the environment
+   * files on disk stay encrypted and tests read usable values from ENV.
+   * If encrypted values are present but the secret key is not set, an error is thrown.
+   *
+   * @param env - The current environment (e.g. "dev", "uat", "prod").
+   * @throws {Error} If the secret key is missing or a value cannot be decrypted.
+   */
+  private static decryptEnvironmentVariables(env: string): void {
+    try {
+      const encryptedKeys = Object.keys(process.env).filter((key) =>
+        CryptoManager.isEncrypted(process.env[key])
+      );
+
+      if (encryptedKeys.length === 0) {
+        logger.info(
+          `No encrypted variables found for the '${env}' environment.`
+        );
+        return;
+      }
+
+      // group the values by the secret key that decrypts them
+      const keysBySecretKey = new Map<string, string[]>();
+      for (const key of encryptedKeys) {
+        const secretKeyName = EnvConfig.resolveSecretKeyName(key, env);
+        keysBySecretKey.set(secretKeyName, [
+          ...(keysBySecretKey.get(secretKeyName) ?? []),
+          key,
+        ]);
+      }
+
+      for (const [secretKeyName, keys] of keysBySecretKey) {
+        const secretKey = process.env[secretKeyName];
+
+        if (!secretKey) {
+          errorHandler.logAndThrowError(
+            `Secret key '${secretKeyName}' is required to decrypt ${keys.length} encrypted variable(s) for the '${env}' environment.`
+          );
+        }
+
+        // data keys of the files that use envelope encryption, unwrapped once per file
+        const dataKeys = new Map<string, string>();
+        for (const key of keys) {
+          const source = EnvConfig.valueSources.get(key)?.source ?? "";
+          const header = EnvConfig.envelopeHeaders.get(source);
+          if (header && !dataKeys.has(source)) {
+            dataKeys.set(
+              source,
+              EnvelopeManager.unwrapDataKey(header, secretKey)
+            );
+          }
+
+          process.env[key] = CryptoManager.decrypt(
+            process.env[key]!,
+            dataKeys.get(source) ?? secretKey
+          );
+          EnvConfig.decryptedKeys.add(key);
+        }
+      }
+
+      // publish the names, never the values, so the test workers can mask the values in their logs
+      process.env[SecretRedactor.DECRYPTED_KEYS_VARIABLE] =
+        EnvConfig.getDecryptedKeys().join(",");
+
+      logger.info(
+        `Decrypted ${encryptedKeys.length} variable(s) for the '${env}' environment.`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "decryptEnvironmentVariables",
+        "Failed to decrypt environment variables"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the name of the secret key that decrypts the given variable: the secret key of
+   * the environment whose file the value was loaded from if it is set, otherwise the secret
+   * key of the current environment.
+   *
+   * @param key - The name of the encrypted variable.
+   * @param env - The current environment.
+   * @returns The name of the secret key variable.
+   */
+  private static resolveSecretKeyName(key: string, env: string): string {
+    const layer = EnvConfig.valueSources.get(key)?.layer;
+    if (layer && layer !== env) {
+      const layerSecretKeyName = EnvConfig.getSecretKeyName(layer);
+      if (process.env[layerSecretKeyName]) {
+        return layerSecretKeyName;
+      }
+    }
+    return EnvConfig.getSecretKeyName(env);
+  }
+
+  /**
+   * Returns the environments that can be selected with the ENV variable. These are the
+   * environments registered under ENVIRONMENTS in appSettings.json together with every
+   * environment that has a `.env.<name>` file in the environment directory, so a new
+   * environment (e.g. "sit", "perf" or a personal sandbox) only needs its own file.
+   * Backups, temporary files and local overrides (.env.bak, .env.tmp, .env.local, ...) are
+   * not environments and are skipped.
+   *
+   * @param envDirPath - The directory of the environment files. Defaults to the envs directory.
+   * @returns The sorted names of the available environments.
+   */
+  public static getAvailableEnvironments(
+    envDirPath: string = envFiles.Environments.ENV_DIR
+  ): string[] {
+    try {
+      const registered = Object.keys(appSettings.ENVIRONMENTS);
+      const envFilePattern = new RegExp(
+        `^${envFiles.Environments.ENV_FILE_PREFIX.replace(/\./g, "\\.")}([\\w-]+)$`
+      );
+      const discovered = fs.existsSync(envDirPath)
+        ? fs
+            .readdirSync(envDirPath)
+            .map((fileName) => envFilePattern.exec(fileName)?.[1])
+            .filter(
+              (name): name is string =>
+                Boolean(name) &&
+                !EnvConfig.NON_ENVIRONMENT_SUFFIXES.includes(
+                  name!.toLowerCase()
+                )
+            )
+        : [];
+
+      return [...new Set([...registered, ...discovered])].sort();
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "getAvailableEnvironments",
+        "Failed to discover environments"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the name of the environment file of an environment, e.g. ".env.sit" for "sit".
+   *
+   * @param env - The name of the environment.
+   * @returns The name of the environment file.
+   */
+  public static getEnvFileName(env: string): string {
+    return `${envFiles.Environments.ENV_FILE_PREFIX}${env}`;
+  }
+
+  /**
+   * Returns the name of the secret key of an environment by convention: SECRET_KEY_ followed
+   * by the upper-cased environment name, with characters that are not letters or digits
+   * replaced by underscores (e.g. "sandbox-jane" uses SECRET_KEY_SANDBOX_JANE).
+   *
+   * @param env - The name of the environment.
+   * @returns The name of the secret key variable.
+   */
+  public static getSecretKeyName(env: string): string {
+    return `${envFiles.Environments.SECRET_KEY_PREFIX}${env
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, "_")}`;
+  }
+
+  /**
+   * Returns the current environment from the ENV variable.
+   *
+   * @returns The current environment.
+   * @throws {Error} If the ENV variable is not set.
+   */
+  public static getCurrentEnvironment(): string {
+    const env = process.env.ENV;
+    if (!env) {
+      return errorHandler.logAndThrowError(
+        "The ENV variable is not set. Run the tests with ENV=<environment>."
+      );
+    }
+    return env;
+  }
+
   /**
    * Loads the environment from the ENV variable.
    * If an error occurs, it logs the error and throws an exception.
    *
-   * @returns {string} The environment (e.g. "dev", "uat", "prod")
+   * @returns {string} The environment (e.g. "dev", "uat", "prod", or any discovered environment)
    */
   private static loadEnv(): string {
     try {
       const env = process.env.ENV;
-      if (!env || !Object.keys(envFiles.ENV_FILES).includes(env)) {
+      const availableEnvironments = EnvConfig.getAvailableEnvironments();
+      if (!env || !availableEnvironments.includes(env)) {
         throw new Error(
-          `Invalid environment specified: ${env}. Expected one of: ${Object.keys(
-            envFiles.ENV_FILES
-          ).join(", ")}`
+          `Invalid environment specified: ${env}. Expected one of: ${availableEnvironments.join(
+            ", "
+          )}`
         );
       }
       logger.info(
@@ -78,17 +426,110 @@ export default class EnvConfig {
   }
 
   /**
-   * Loads environment variables from the specified file using the dotenv library.
+   * Loads the layers of the given environment on top of the base environment file:
+   * the files of the environments it extends, its own file and its local override file.
+   *
+   * @param env - The current environment.
+   */
+  private static loadEnvLayers(env: string): void {
+    try {
+      for (const parent of EnvConfig.resolveInheritedEnvironments(env)) {
+        EnvConfig.loadEnvFile(EnvConfig.getEnvFileName(parent), parent);
+      }
+
+      EnvConfig.loadEnvFile(EnvConfig.getEnvFileName(env), env);
+
+      const localFileName = `${EnvConfig.getEnvFileName(env)}${EnvConfig.LOCAL_FILE_SUFFIX}`;
+      if (fs.existsSync(EnvConfig.getEnvFilePath(localFileName))) {
+        EnvConfig.loadEnvFile(localFileName, env);
+        logger.info(
+          `Local override file '${localFileName}' loaded successfully.`
+        );
+      }
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "loadEnvLayers",
+        "Failed to load environment layers"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the environments that the given environment extends, directly or indirectly,
+   * in the order their files are loaded: every parent comes after its own parents.
+   * Parents are declared with `extends` under ENVIRONMENTS in appSettings.json,
+   * e.g. "uat": { "extends": ["common"] }.
+   *
+   * @param env - The environment to resolve.
+   * @param chain - The environments currently being resolved, used to detect cycles.
+   * @returns The inherited environments, without the environment itself.
+   * @throws {Error} If the inheritance contains a cycle.
+   */
+  private static resolveInheritedEnvironments(
+    env: string,
+    chain: string[] = []
+  ): string[] {
+    if (chain.includes(env)) {
+      return errorHandler.logAndThrowError(
+        `Circular environment inheritance: ${[...chain, env].join(" -> ")}`
+      );
+    }
+
+    const environments = appSettings.ENVIRONMENTS as Record<
+      string,
+      interfaces.EnvironmentDefinition
+    >;
+    const inherited: string[] = [];
+
+    for (const parent of environments[env]?.extends ?? []) {
+      for (const ancestor of [
+        ...EnvConfig.resolveInheritedEnvironments(parent, [...chain, env]),
+        parent,
+      ]) {
+        if (!inherited.includes(ancestor)) {
+          inherited.push(ancestor);
+        }
+      }
+    }
+
+    return inherited;
+  }
+
+  /**
+   * Returns whether environment files or variables already set in the shell take precedence.
+   * Configured with ENV_LOADING.processEnvPrecedence in appSettings.json and overridable
+   * with the ENV_PRECEDENCE variable.
+   *
+   * @returns "files" or "process".
+   * @throws {Error} If the configured precedence is not supported.
+   */
+  private static getProcessEnvPrecedence(): interfaces.EnvPrecedence {
+    const precedence =
+      process.env.ENV_PRECEDENCE ??
+      appSettings.ENV_LOADING.processEnvPrecedence;
+    if (precedence !== "files" && precedence !== "process") {
+      return errorHandler.logAndThrowError(
+        `Invalid environment precedence: ${precedence}. Expected one of: files, process`
+      );
+    }
+    return precedence;
+  }
+
+  /**
+   * Loads environment variables from the specified file.
    * If the file does not exist, it logs a warning message with the file path.
    * If an error occurs, it logs the error and throws an exception.
    *
    * @param fileName - The name of the file from which to load environment variables.
+   * @param layer - The environment the file belongs to, if it is not the base file.
    */
-  private static loadEnvFile(fileName: string): void {
+  private static loadEnvFile(fileName: string, layer?: string): void {
     try {
       const filePath = EnvConfig.getEnvFilePath(fileName);
       if (fs.existsSync(filePath)) {
-        EnvConfig.loadEnvironmentVariables(filePath);
+        EnvConfig.loadEnvironmentVariables(filePath, layer);
       } else {
         logger.warn(
           `The environment-specific file was not found: ${filePath}. \nEnsure the file exists if decryption is required at runtime, or disregard this warning if the file is unnecessary.`
@@ -195,23 +636,38 @@ export default class EnvConfig {
   }
 
   /**
-   * Loads environment variables from the specified file path using the dotenv library.
-   * Overrides existing environment variables if they are already set.
-   * Logs an error and throws an exception if loading fails.
+   * Loads environment variables from the specified file path using the dotenv parser.
+   * Overrides variables loaded from earlier files. Variables that were already set in the
+   * shell are overridden too, unless the precedence is "process".
+   * The source of every variable is recorded. Logs an error and throws an exception if loading fails.
    *
    * @param filePath - The path to the environment file from which variables are to be loaded.
+   * @param layer - The environment the file belongs to, if it is not the base file.
    */
-  private static loadEnvironmentVariables(filePath: string): void {
+  private static loadEnvironmentVariables(
+    filePath: string,
+    layer?: string
+  ): void {
     try {
-      const result = dotenv.config({ path: filePath, override: true });
+      const content = fs.readFileSync(filePath, "utf8");
+      const parsed = dotenv.parse(content);
+      const keepProcessEnv = EnvConfig.getProcessEnvPrecedence() === "process";
+      const source = path.relative(process.cwd(), filePath);
 
-      if (result.error) {
-        logger.error(
-          `Error loading environment variables from ${filePath}: ${result.error.message}`
-        );
-        throw new Error(
-          `Error loading environment variables from ${filePath}: ${result.error.message}`
-        );
+      const header = EnvelopeManager.parseHeader(EnvFileParser.parse(content));
+      if (header) {
+        EnvConfig.envelopeHeaders.set(source, header);
+      }
+
+      for (const [key, value] of Object.entries(parsed)) {
+        if (keepProcessEnv && EnvConfig.processEnvKeys?.has(key)) {
+          EnvConfig.valueSources.set(key, {
+            source: EnvConfig.PROCESS_ENV_SOURCE,
+          });
+          continue;
+        }
+        process.env[key] = value;
+        EnvConfig.valueSources.set(key, { source, layer });
       }
     } catch (error) {
       errorHandler.logGeneralError(
@@ -0,0 +1,326 @@
+import errorHandler from "../helpers/errorHandler";
+import { EnvFileLine, EnvQuote } from "../models/interfaces";
+
+export default class EnvFileParser {
+  // Same key characters and separator as the dotenv LINE expression
+  private static readonly ENTRY_REGEX = /^\s*(export\s+)?([\w.-]+)\s*=\s*(.*)$/;
+  private static readonly QUOTES: EnvQuote[] = ['"', "'", "`"];
+
+  /**
+   * Parses the content of an environment file into lines, following the dotenv parsing rules:
+   * optional `export` prefixes, single, double and backtick quoted values, quoted values that
+   * span multiple lines, `\n` and `\r` expansion in double quoted values, full-line `#` comments
+   * and inline comments after the value.
+   *
+   * Every parsed line keeps its original text (including its line terminator), so serializing
+   * the lines again reproduces the file byte for byte unless a value was changed.
+   *
+   * @param content - The content of the environment file.
+   * @returns The parsed lines in file order.
+   */
+  public static parse(content: string): EnvFileLine[] {
+    try {
+      const physicalLines = this.splitPhysicalLines(content);
+      const lines: EnvFileLine[] = [];
+
+      for (let index = 0; index < physicalLines.length; index++) {
+        const { text, eol } = physicalLines[index];
+        const lineNumber = index + 1;
+        const trimmedText = text.trim();
+
+        if (trimmedText === "") {
+          lines.push({ type: "blank", raw: text + eol, lineNumber });
+          continue;
+        }
+
+        if (trimmedText.startsWith("#")) {
+          lines.push({ type: "comment", raw: text + eol, lineNumber });
+          continue;
+        }
+
+        const match = this.ENTRY_REGEX.exec(text);
+        if (!match) {
+          lines.push({ type: "invalid", raw: text + eol, lineNumber });
+          continue;
+        }
+
+        const [, exportPrefix, key, rest] = match;
+        const quote = this.QUOTES.find((q) => rest.startsWith(q));
+        let raw = text + eol;
+        let valuePart = rest;
+        let closingIndex = quote ? this.findClosingQuote(rest, quote) : -1;
+
+        // A quoted value may continue on the following lines until its closing quote
+        let lastIndex = index;
+        while (quote && closingIndex === -1 && lastIndex + 1 < physicalLines.length) {
+          lastIndex++;
+          valuePart += "\n" + physicalLines[lastIndex].text;
+          closingIndex = this.findClosingQuote(valuePart, quote);
+        }
+
+        if (quote && closingIndex !== -1) {
+          for (let next = index + 1; next <= lastIndex; next++) {
+            raw += physicalLines[next].text + physicalLines[next].eol;
+          }
+          index = lastIndex;
+
+          let value = valuePart.slice(1, closingIndex);
+          if (quote === '"') {
+            value = value.replace(/\\n/g, "\n").replace(/\\r/g, "\r");
+          }
+
+          lines.push({
+            type: "entry",
+            raw,
+            lineNumber,
+            key,
+            value,
+            exported: Boolean(exportPrefix),
+            quote,
+            inlineComment: this.extractComment(valuePart.slice(closingIndex + 1)),
+          });
+          continue;
+        }
+
+        // Unquoted values (and unterminated quotes, as in dotenv) end at the first "#"
+        const hashIndex = rest.indexOf("#");
+        lines.push({
+          type: "entry",
+          raw,
+          lineNumber,
+          key,
+          value: (hashIndex === -1 ? rest : rest.slice(0, hashIndex)).trim(),
+          exported: Boolean(exportPrefix),
+          quote: "",
+          inlineComment: hashIndex === -1 ? undefined : rest.slice(hashIndex),
+        });
+      }
+
+      return lines;
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "parse",
+        "Failed to parse environment file content"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Serializes parsed lines back into environment file content.
+   *
+   * @param lines - The parsed lines.
+   * @returns The environment file content.
+   */
+  public static serialize(lines: EnvFileLine[]): string {
+    return lines.map((line) => line.raw).join("");
+  }
+
+  /**
+   * Returns the value of the given key. When a key is defined more than once,
+   * the last definition wins, as in dotenv.
+   *
+   * @param lines - The parsed lines.
+   * @param key - The key to look up.
+   * @returns The value of the key, or undefined if the key is not defined.
+   */
+  public static getValue(lines: EnvFileLine[], key: string): string | undefined {
+    const entries = lines.filter(
+      (line) => line.type === "entry" && line.key === key
+    );
+    return entries.length > 0 ? entries[entries.length - 1].value : undefined;
+  }
+
+  /**
+   * Returns the entries of the parsed lines as a key/value record.
+   *
+   * @param lines - The parsed lines.
+   * @returns A record of every key and its value.
+   */
+  public static toRecord(lines: EnvFileLine[]): Record<string, string> {
+    const record: Record<string, string> = {};
+    for (const line of lines) {
+      if (line.type === "entry") {
+        record[line.key!] = line.value ?? "";
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Sets the value of a key. Every existing definition of the key is updated in place,
+   * keeping its export prefix and inline comment; otherwise the key is appended.
+   *
+   * @param lines - The parsed lines.
+   * @param key - The key to set.
+   * @param value - The new value.
+   * @returns The updated lines.
+   */
+  public static setValue(
+    lines: EnvFileLine[],
+    key: string,
+    value: string
+  ): EnvFileLine[] {
+    let found = false;
+    const updatedLines = lines.map((line) => {
+      if (line.type !== "entry" || line.key !== key) {
+        return line;
+      }
+      found = true;
+      return this.withValue(line, value);
+    });
+
+    if (found) {
+      return updatedLines;
+    }
+
+    // Make sure the appended line starts on a new line
+    const lastLine = updatedLines[updatedLines.length - 1];
+    const eol = this.detectLineEnding(lines);
+    if (lastLine && !/[\r\n]$/.test(lastLine.raw)) {
+      updatedLines[updatedLines.length - 1] = {
+        ...lastLine,
+        raw: lastLine.raw + eol,
+      };
+    }
+
+    const entry: EnvFileLine = {
+      type: "entry",
+      raw: "",
+      lineNumber: (lastLine?.lineNumber ?? 0) + 1,
+      key,
+      value,
+      exported: false,
+      quote: "",
+    };
+    updatedLines.push({ ...entry, raw: this.formatEntry(entry) + eol });
+    return updatedLines;
+  }
+
+  /**
+   * Returns a copy of the entry with a new value, keeping its line terminator.
+   *
+   * @param line - The entry to update.
+   * @param value - The new value.
+   * @returns The updated entry.
+   */
+  public static withValue(line: EnvFileLine, value: string): EnvFileLine {
+    const eol = /\r\n$/.test(line.raw) ? "\r\n" : /\n$/.test(line.raw) ? "\n" : "";
+    const updated: EnvFileLine = { ...line, value, quote: this.chooseQuote(value) };
+    return { ...updated, raw: this.formatEntry(updated) + eol };
+  }
+
+  /**
+   * Formats an entry as a single `key=value` definition (without line terminator),
+   * quoting the value only when dotenv would otherwise read it differently.
+   *
+   * @param line - The entry to format.
+   * @returns The formatted definition.
+   */
+  public static formatEntry(line: EnvFileLine): string {
+    const value = line.value ?? "";
+    const quote = line.quote || this.chooseQuote(value);
+    const formattedValue =
+      quote === '"'
+        ? `"${value.replace(/\n/g, "\\n").replace(/\r/g, "\\r")}"`
+        : `${quote}${value}${quote}`;
+
+    return `${line.exported ? "export " : ""}${line.key}=${formattedValue}${
+      line.inlineComment ? ` ${line.inlineComment}` : ""
+    }`;
+  }
+
+  /**
+   * Chooses how a value has to be quoted so that dotenv reads back exactly the same value.
+   * Values without special characters are left unquoted.
+   *
+   * @param value - The value to quote.
+   * @returns The quote character, or an empty string if no quotes are needed.
+   * @throws {Error} If the value contains every quote character and cannot be represented.
+   */
+  private static chooseQuote(value: string): EnvQuote {
+    const needsQuotes =
+      /[#\r\n]/.test(value) ||
+      value !== value.trim() ||
+      this.QUOTES.some((q) => value.startsWith(q));
+
+    if (!needsQuotes) {
+      return "";
+    }
+    // Double quotes expand \n and \r, so only use them when that cannot alter the value
+    if (!value.includes('"') && !/\\[nr]/.test(value)) {
+      return '"';
+    }
+    if (!value.includes("'")) {
+      return "'";
+    }
+    if (!value.includes("`")) {
+      return "`";
+    }
+    return errorHandler.logAndThrowError(
+      "Value contains every quote character and cannot be written to an environment file."
+    );
+  }
+
+  /**
+   * Splits content into physical lines, keeping the terminator of each line.
+   *
+   * @param content - The content to split.
+   * @returns The text and terminator of every line.
+   */
+  private static splitPhysicalLines(
+    content: string
+  ): { text: string; eol: string }[] {
+    const parts = content.split(/(\r\n|\n|\r)/);
+    const lines: { text: string; eol: string }[] = [];
+
+    for (let index = 0; index < parts.length; index += 2) {
+      const text = parts[index];
+      const eol = parts[index + 1] ?? "";
+      if (text === "" && eol === "") {
+        continue; // no content after the final line terminator
+      }
+      lines.push({ text, eol });
+    }
+
+    return lines;
+  }
+
+  /**
+   * Finds the index of the quote that closes a quoted value, skipping escaped quotes.
+   *
+   * @param valuePart - The value text, starting with the opening quote.
+   * @param quote - The quote character.
+   * @returns The index of the closing quote, or -1 if the value is not terminated.
+   */
+  private static findClosingQuote(valuePart: string, quote: EnvQuote): number {
+    for (let index = 1; index < valuePart.length; index++) {
+      if (valuePart[index] === quote && valuePart[index - 1] !== "\\") {
+        return index;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Extracts the inline comment that follows a closing quote.
+   *
+   * @param remainder - The text after the closing quote.
+   * @returns The comment including its "#", or undefined if there is none.
+   */
+  private static extractComment(remainder: string): string | undefined {
+    const trimmedRemainder = remainder.trim();
+    return trimmedRemainder.startsWith("#") ? trimmedRemainder : undefined;
+  }
+
+  /**
+   * Detects the line terminator used by the parsed lines.
+   *
+   * @param lines - The parsed lines.
+   * @returns "\r\n" if the file uses Windows line endings, otherwise "\n".
+   */
+  private static detectLineEnding(lines: EnvFileLine[]): string {
+    return lines.some((line) => line.raw.endsWith("\r\n")) ? "\r\n" : "\n";
+  }
+}
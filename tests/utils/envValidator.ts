@@ -0,0 +1,221 @@
+import envSchema from "../config/envSchema";
+import EnvConfig from "./envConfig";
+import errorHandler from "../helpers/errorHandler";
+import logger from "./loggerUtil";
+import { EnvVariableDefinition } from "../models/interfaces";
+
+export default class EnvValidator {
+  private static readonly TRUE_VALUES = ["true", "1", "yes"];
+  private static readonly FALSE_VALUES = ["false", "0", "no"];
+
+  /**
+   * Validates the loaded environment variables against the environment schema.
+   * Every variable is checked for presence, type, allowed values and encryption, and all
+   * problems are collected into a single report instead of failing on the first one.
+   * Validation can be disabled by setting ENV_VALIDATION=off, which is used by the
+   * key generation and encryption scripts that run before the environment is complete.
+   *
+   * @param env - The current environment (e.g. "dev", "uat", "prod").
+   * @throws {Error} If one or more variables do not satisfy the schema.
+   */
+  public static validateEnvironment(env: string): void {
+    try {
+      if (process.env.ENV_VALIDATION?.toLowerCase() === "off") {
+        logger.warn(
+          `Environment validation is disabled for the '${env}' environment.`
+        );
+        return;
+      }
+
+      const decryptedKeys = EnvConfig.getDecryptedKeys();
+      const problems: string[] = [];
+
+      for (const [key, definition] of Object.entries(envSchema)) {
+        const problem = this.validateVariable(
+          key,
+          definition,
+          decryptedKeys.includes(key)
+        );
+        if (problem) {
+          problems.push(`  - ${key}: ${problem}`);
+        }
+      }
+
+      if (problems.length > 0) {
+        errorHandler.logAndThrowError(
+          `Environment '${env}' failed validation with ${
+            problems.length
+          } problem(s):\n${problems.join("\n")}`
+        );
+      }
+
+      logger.info(
+        `Environment '${env}' passed validation for ${
+          Object.keys(envSchema).length
+        } variable(s).`
+      );
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "validateEnvironment",
+        "Failed to validate environment variables"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the value of a string or url variable, falling back to its schema default.
+   *
+   * @param key - The name of the environment variable.
+   * @returns The value, or undefined if the variable is not set and has no default.
+   */
+  public static getString(key: string): string | undefined {
+    return this.getRawValue(key);
+  }
+
+  /**
+   * Returns the value of an integer variable, falling back to its schema default.
+   *
+   * @param key - The name of the environment variable.
+   * @returns The parsed integer, or undefined if the variable is not set and has no default.
+   * @throws {Error} If the value is not a valid integer.
+   */
+  public static getInt(key: string): number | undefined {
+    const value = this.getRawValue(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!this.isInt(value)) {
+      errorHandler.logAndThrowError(
+        `Environment variable '${key}' must be an integer but received '${value}'.`
+      );
+    }
+    return parseInt(value.trim(), 10);
+  }
+
+  /**
+   * Returns the value of a boolean variable, falling back to its schema default.
+   * Accepts true/false, 1/0 and yes/no (case-insensitive).
+   *
+   * @param key - The name of the environment variable.
+   * @returns The parsed boolean, or undefined if the variable is not set and has no default.
+   * @throws {Error} If the value is not a valid boolean.
+   */
+  public static getBool(key: string): boolean | undefined {
+    const value = this.getRawValue(key);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!this.isBool(value)) {
+      errorHandler.logAndThrowError(
+        `Environment variable '${key}' must be a boolean but received '${value}'.`
+      );
+    }
+    return this.TRUE_VALUES.includes(value.trim().toLowerCase());
+  }
+
+  /**
+   * Returns the raw value of a variable from process.env, or its schema default if the
+   * variable is not set or only whitespace. The value is returned unchanged, so passwords
+   * with leading or trailing whitespace are kept as they are.
+   *
+   * @param key - The name of the environment variable.
+   * @returns The raw value or default, or undefined if neither is available.
+   */
+  private static getRawValue(key: string): string | undefined {
+    const value = process.env[key];
+    if (value !== undefined && value.trim() !== "") {
+      return value;
+    }
+    return envSchema[key]?.default;
+  }
+
+  /**
+   * Validates a single variable against its definition.
+   *
+   * @param key - The name of the environment variable.
+   * @param definition - The schema definition of the variable.
+   * @param wasEncrypted - Whether the value was stored encrypted in the environment file.
+   * Only values loaded from an environment file must have been encrypted.
+   * @returns A description of the problem, or undefined if the variable is valid.
+   */
+  private static validateVariable(
+    key: string,
+    definition: EnvVariableDefinition,
+    wasEncrypted: boolean
+  ): string | undefined {
+    const value = this.getRawValue(key);
+
+    if (value === undefined) {
+      return definition.required ? "is required but not set" : undefined;
+    }
+
+    // values set in the shell or by the CI pipeline never touch an environment file
+    if (definition.encrypted && !wasEncrypted && EnvConfig.isLoadedFromFile(key)) {
+      return "must be stored encrypted in the environment file";
+    }
+
+    // never echo values that are meant to be secret
+    const received = definition.encrypted ? "a hidden value" : `'${value}'`;
+
+    switch (definition.type) {
+      case "url":
+        return this.isUrl(value)
+          ? undefined
+          : `expected a valid http(s) URL but received ${received}`;
+      case "int":
+        return this.isInt(value)
+          ? undefined
+          : `expected an integer but received ${received}`;
+      case "bool":
+        return this.isBool(value)
+          ? undefined
+          : `expected a boolean (true/false) but received ${received}`;
+      case "enum":
+        return definition.values?.includes(value)
+          ? undefined
+          : `expected one of [${(definition.values ?? []).join(
+              ", "
+            )}] but received ${received}`;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Checks whether the value is an absolute http or https URL.
+   * @param value - The value to check.
+   * @returns True if the value is a valid URL, otherwise false.
+   */
+  private static isUrl(value: string): boolean {
+    try {
+      const { protocol } = new URL(value.trim());
+      return protocol === "http:" || protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Checks whether the value is a base-10 integer.
+   * @param value - The value to check.
+   * @returns True if the value is an integer, otherwise false.
+   */
+  private static isInt(value: string): boolean {
+    return /^-?\d+$/.test(value.trim());
+  }
+
+  /**
+   * Checks whether the value is one of the accepted boolean spellings.
+   * @param value - The value to check.
+   * @returns True if the value is a boolean, otherwise false.
+   */
+  private static isBool(value: string): boolean {
+    const normalized = value.trim().toLowerCase();
+    return (
+      this.TRUE_VALUES.includes(normalized) ||
+      this.FALSE_VALUES.includes(normalized)
+    );
+  }
+}
@@ -1,15 +1,78 @@
+import EnvValidator from "./envValidator";
+import EnvConfig from "./envConfig";
+
+/**
+ * Typed access to the environment variables declared in config/envSchema.ts.
+ * Values are read from process.env when accessed (not when this module is imported),
+ * parsed according to the schema and fall back to the schema defaults.
+ */
 export default class ENV {
   // Portal environment variables
-  public static PORTAL_URL = process.env.PORTAL_URL!;
-  public static PORTAL_USERNAME = process.env.PORTAL_USERNAME!;
-  public static PORTAL_PASSWORD = process.env.PORTAL_PASSWORD!;
-  public static SECRET_KEY_UAT = process.env.SECRET_KEY_UAT!;
-
-  public static API_URL = process.env.API_URL!;
-
-    // Database environment variables
-    public static SERVER = process.env.SERVER!;
-    public static DATABASE = process.env.DATABASE!;
-    public static PORT = process.env.PORT!;
-    public static AZURE_DB_ENDPOINT = process.env.AZURE_DB_ENDPOINT!;
+  public static get PORTAL_URL(): string {
+    return EnvValidator.getString("PORTAL_URL")!;
+  }
+  public static get PORTAL_USERNAME(): string {
+    return EnvValidator.getString("PORTAL_USERNAME")!;
+  }
+  public static get PORTAL_PASSWORD(): string {
+    return EnvValidator.getString("PORTAL_PASSWORD")!;
+  }
+  public static get PORTAL_TOTP_SECRET(): string | undefined {
+    return EnvValidator.getString("PORTAL_TOTP_SECRET");
+  }
+  public static get SECRET_KEY_UAT(): string {
+    return EnvValidator.getString("SECRET_KEY_UAT")!;
+  }
+
+  // Secret key of the current environment, e.g. SECRET_KEY_SIT when ENV=sit
+  public static get SECRET_KEY(): string {
+    return process.env[
+      EnvConfig.getSecretKeyName(EnvConfig.getCurrentEnvironment())
+    ]!;
+  }
+
+  public static get API_URL(): string | undefined {
+    return EnvValidator.getString("API_URL");
+  }
+  public static get API_AUTH_TYPE(): string | undefined {
+    return EnvValidator.getString("API_AUTH_TYPE");
+  }
+  public static get API_TOKEN(): string | undefined {
+    return EnvValidator.getString("API_TOKEN");
+  }
+  public static get API_USERNAME(): string | undefined {
+    return EnvValidator.getString("API_USERNAME");
+  }
+  public static get API_PASSWORD(): string | undefined {
+    return EnvValidator.getString("API_PASSWORD");
+  }
+  public static get API_KEY(): string | undefined {
+    return EnvValidator.getString("API_KEY");
+  }
+  public static get API_CLIENT_ID(): string | undefined {
+    return EnvValidator.getString("API_CLIENT_ID");
+  }
+  public static get API_CLIENT_SECRET(): string | undefined {
+    return EnvValidator.getString("API_CLIENT_SECRET");
+  }
+  public static get API_AUTH_URL(): string | undefined {
+    return EnvValidator.getString("API_AUTH_URL");
+  }
+  public static get API_SCOPE(): string | undefined {
+    return EnvValidator.getString("API_SCOPE");
+  }
+
+  // Database environment variables
+  public static get SERVER(): string | undefined {
+    return EnvValidator.getString("SERVER");
+  }
+  public static get DATABASE(): string | undefined {
+    return EnvValidator.getString("DATABASE");
+  }
+  public static get PORT(): number | undefined {
+    return EnvValidator.getInt("PORT");
+  }
+  public static get AZURE_DB_ENDPOINT(): string | undefined {
+    return EnvValidator.getString("AZURE_DB_ENDPOINT");
+  }
 }
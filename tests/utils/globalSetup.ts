@@ -1,16 +1,33 @@
 import EnvConfig from "../utils/envConfig";
+import EnvValidator from "../utils/envValidator";
+import ENV from "../utils/envVariables";
+import ArtifactManager from "../helpers/artifactManager";
+import CryptoSelfTest from "../helpers/cryptoSelfTest";
 import errorHandler from "../helpers/errorHandler";
 
 /**
  * Global setup function for Playwright tests.
+ * A fast crypto self-test runs first, unless disabled with CRYPTO_SELF_TEST=off, so a broken
+ * crypto stack fails the run before any value is decrypted.
  * Initializes the environment configuration by ensuring the environment directory exists
- * and loading the base and current environment variables.
+ * and loading the base and current environment variables, then validates them against
+ * the environment schema so that missing or invalid variables fail the run immediately.
+ * The encrypted artifacts listed in appSettings.json are then decrypted into a temporary
+ * directory, which the returned teardown removes after the run.
  * Logs an error and throws an exception if setup fails.
- * @returns {void} Nothing.
+ * @returns {Promise<() => void>} The global teardown.
  */
-function globalSetup(): void {
+async function globalSetup(): Promise<() => void> {
   try {
-    EnvConfig.initEnvConfiguration();
+    if (CryptoSelfTest.isEnabled()) {
+      CryptoSelfTest.run();
+    }
+
+    await EnvConfig.initEnvConfiguration();
+    EnvValidator.validateEnvironment(process.env.ENV!);
+
+    const artifactsDir = await ArtifactManager.decryptArtifacts(ENV.SECRET_KEY);
+    return () => ArtifactManager.removeDecryptedArtifacts(artifactsDir);
   } catch (error) {
     errorHandler.logGeneralError(
       error,
@@ -0,0 +1,164 @@
+import * as crypto from "crypto";
+import errorHandler from "../helpers/errorHandler";
+import * as interfaces from "../models/interfaces";
+import { KeyDerivationFunction } from "../models/utilityEnums";
+import * as appSettings from "../config/appSettings.json";
+
+export default class KeyDerivationUtil {
+  // Upper bound for the memory scrypt may use, so a value with tampered parameters cannot exhaust it
+  private static readonly SCRYPT_MAX_MEMORY = 512 * 1024 * 1024;
+
+  // Registered key derivation functions by name, the name is stored in every encrypted value
+  private static strategies = new Map<string, interfaces.KeyDerivationStrategy>([
+    [
+      KeyDerivationFunction.PBKDF2_SHA256,
+      {
+        requiredParams: ["iterations"],
+        // about 50 times the configured 100000, which takes seconds, not hours
+        maxParams: { iterations: 5_000_000 },
+        derive: (secretKey, salt, keyLength, params) =>
+          crypto.pbkdf2Sync(secretKey, salt, params.iterations, keyLength, "sha256"),
+      },
+    ],
+    [
+      KeyDerivationFunction.SCRYPT,
+      {
+        requiredParams: ["cost", "blockSize", "parallelization"],
+        // memory is limited by maxmem as well, parallelization multiplies the time only
+        maxParams: { cost: 2 ** 20, blockSize: 32, parallelization: 16 },
+        derive: (secretKey, salt, keyLength, params) =>
+          crypto.scryptSync(secretKey, salt, keyLength, {
+            cost: params.cost,
+            blockSize: params.blockSize,
+            parallelization: params.parallelization,
+            maxmem: KeyDerivationUtil.SCRYPT_MAX_MEMORY,
+          }),
+      },
+    ],
+  ]);
+
+  /**
+   * Registers a key derivation function, e.g. Argon2 from a third-party package.
+   * Values encrypted with it can only be decrypted while it is registered.
+   *
+   * @param name - The name stored in every value encrypted with the function.
+   * @param strategy - The parameters the function requires and the derivation itself.
+   */
+  public static register(
+    name: string,
+    strategy: interfaces.KeyDerivationStrategy
+  ): void {
+    KeyDerivationUtil.strategies.set(name, strategy);
+  }
+
+  /**
+   * Checks whether a key derivation function is registered.
+   *
+   * @param name - The name of the key derivation function.
+   * @returns True if values using the function can be decrypted, otherwise false.
+   */
+  public static isSupported(name: string): boolean {
+    return KeyDerivationUtil.strategies.has(name);
+  }
+
+  /**
+   * Returns the key derivation function used for new values, from
+   * KEY_DERIVATION.algorithm in appSettings.json.
+   *
+   * @returns The name of the key derivation function.
+   */
+  public static getDefaultFunction(): string {
+    return appSettings.KEY_DERIVATION.algorithm;
+  }
+
+  /**
+   * Returns the parameters used for new values of the given key derivation function,
+   * from KEY_DERIVATION.parameters in appSettings.json.
+   *
+   * @param name - The name of the key derivation function.
+   * @returns A copy of the configured parameters.
+   * @throws {Error} If no parameters are configured for the function.
+   */
+  public static getDefaultParams(name: string): interfaces.KdfParams {
+    const parameters = appSettings.KEY_DERIVATION.parameters as Record<
+      string,
+      interfaces.KdfParams
+    >;
+    if (!parameters[name]) {
+      return errorHandler.logAndThrowError(
+        `No parameters configured for key derivation function: ${name}`
+      );
+    }
+    return { ...parameters[name] };
+  }
+
+  /**
+   * Validates that the key derivation function is registered and that every parameter
+   * it requires is a positive integer within the bounds of the function. The parameters are
+   * read from the encrypted value, which is not trusted until its MAC is verified after the
+   * derivation, so the bounds keep a tampered value from stalling decryption.
+   *
+   * @param name - The name of the key derivation function.
+   * @param params - The parameters to validate.
+   * @throws {Error} If the function is not registered or a parameter is missing or invalid.
+   */
+  public static validateParams(name: string, params: interfaces.KdfParams): void {
+    const strategy = KeyDerivationUtil.strategies.get(name);
+    if (!strategy) {
+      errorHandler.logAndThrowError(`Unsupported key derivation function: ${name}`);
+    }
+
+    const invalidParams = strategy.requiredParams.filter(
+      (param) => !Number.isInteger(params?.[param]) || params[param] <= 0
+    );
+    if (invalidParams.length > 0) {
+      errorHandler.logAndThrowError(
+        `Missing or invalid ${name} parameters: ${invalidParams.join(", ")}`
+      );
+    }
+
+    const excessiveParams = Object.entries(strategy.maxParams ?? {}).filter(
+      ([param, max]) => params[param] > max
+    );
+    if (excessiveParams.length > 0) {
+      errorHandler.logAndThrowError(
+        `${name} parameters out of range: ${excessiveParams
+          .map(([param, max]) => `${param} ${params[param]} exceeds ${max}`)
+          .join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Derives a key of the given length with the named key derivation function.
+   *
+   * @param name - The name of the key derivation function.
+   * @param secretKey - The secret key to derive from.
+   * @param salt - The salt to use for derivation.
+   * @param keyLength - The length of the derived key in bytes.
+   * @param params - The parameters of the key derivation function.
+   * @returns The derived key.
+   * @throws {Error} If the parameters are invalid or the derivation fails.
+   */
+  public static derive(
+    name: string,
+    secretKey: string,
+    salt: Buffer,
+    keyLength: number,
+    params: interfaces.KdfParams
+  ): Buffer {
+    try {
+      KeyDerivationUtil.validateParams(name, params);
+      return KeyDerivationUtil.strategies
+        .get(name)!
+        .derive(secretKey, salt, keyLength, params);
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "derive",
+        `Failed to derive key with ${name}`
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,32 @@
+export default class KeyPatternUtil {
+  /**
+   * Compiles a key pattern, e.g. "*PASSWORD*" or "SECRET_KEY_*", into a regular expression.
+   * Patterns are matched case-insensitively against the whole key, "*" matches any
+   * characters and "?" a single character.
+   *
+   * @param pattern - The key pattern.
+   * @returns The regular expression of the pattern.
+   */
+  public static toRegex(pattern: string): RegExp {
+    return new RegExp(
+      `^${pattern
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/\?/g, ".")}$`,
+      "i"
+    );
+  }
+
+  /**
+   * Checks whether a key matches any of the given patterns.
+   *
+   * @param key - The key to check.
+   * @param patterns - The key patterns, or regular expressions compiled with toRegex.
+   * @returns True if the key matches at least one pattern.
+   */
+  public static matchesAny(key: string, patterns: (string | RegExp)[]): boolean {
+    return patterns.some((pattern) =>
+      (typeof pattern === "string" ? KeyPatternUtil.toRegex(pattern) : pattern).test(key)
+    );
+  }
+}
@@ -2,6 +2,7 @@ import winston from "winston";
 import path from "path";
 import moment from "moment-timezone";
 import fs from "fs";
+import SecretRedactor from "./secretRedactor";
 
 class LoggerUtil {
   
@@ -36,6 +37,8 @@ class LoggerUtil {
    * printing to the console. The log format is a custom format that includes
    * the timestamp in ISO 8601 format with timezone, the log level and the
    * log message. The timestamp format is used for both transports.
+   * Secrets are masked by the redaction format of the logger before any
+   * transport writes the message.
    *
    * @private
    */
@@ -95,8 +98,9 @@ class LoggerUtil {
       ),
     });
 
-    // Create the logger with both transports
+    // Create the logger with both transports, masking secrets for all of them
     this.instance = winston.createLogger({
+      format: SecretRedactor.format(),
       transports: [
         infoTransport,
         errorTransport,
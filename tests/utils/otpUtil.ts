@@ -0,0 +1,187 @@
+import * as crypto from "crypto";
+import errorHandler from "../helpers/errorHandler";
+import logger from "./loggerUtil";
+import * as interfaces from "../models/interfaces";
+import { OtpAlgorithm } from "../models/utilityEnums";
+
+export default class OtpUtil {
+  private static readonly BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+  private static readonly DEFAULT_DIGITS = 6;
+  private static readonly DEFAULT_PERIOD = 30; // seconds
+
+  /**
+   * Decodes a base32 secret (RFC 4648) as shown by authenticator apps and MFA enrolment
+   * pages. Letters are case-insensitive, and spaces, dashes and padding are ignored.
+   *
+   * @param secret - The base32 encoded secret.
+   * @returns The decoded secret.
+   * @throws {Error} If the secret contains characters outside the base32 alphabet.
+   */
+  public static decodeBase32(secret: string): Buffer {
+    const normalized = secret.replace(/[\s=-]/g, "").toUpperCase();
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+
+    for (const char of normalized) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        return errorHandler.logAndThrowError(
+          "Invalid base32 secret: it contains characters outside A-Z and 2-7."
+        );
+      }
+      buffer = (buffer << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bits -= 8;
+        bytes.push((buffer >> bits) & 0xff);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  /**
+   * Generates an HMAC-based one-time password (RFC 4226).
+   *
+   * @param secret - The shared secret, base32 encoded or as raw bytes.
+   * @param counter - The moving factor.
+   * @param digits - The number of digits of the password. Defaults to 6.
+   * @param algorithm - The HMAC algorithm. Defaults to SHA1.
+   * @returns The one-time password, padded with leading zeros.
+   * @throws {Error} If the secret is invalid.
+   */
+  public static generateHotp(
+    secret: string | Buffer,
+    counter: number,
+    digits: number = this.DEFAULT_DIGITS,
+    algorithm: OtpAlgorithm = OtpAlgorithm.SHA1
+  ): string {
+    try {
+      const key = typeof secret === "string" ? this.decodeBase32(secret) : secret;
+      if (key.length === 0) {
+        errorHandler.logAndThrowError("The one-time password secret is empty.");
+      }
+
+      const counterBuffer = Buffer.alloc(8);
+      counterBuffer.writeBigUInt64BE(BigInt(counter));
+      const hmac = crypto.createHmac(algorithm, key).update(counterBuffer).digest();
+
+      // Dynamic truncation: 31 bits from the offset given by the low nibble of the last byte
+      const offset = hmac[hmac.length - 1] & 0x0f;
+      const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+      return (binary % 10 ** digits).toString().padStart(digits, "0");
+    } catch (error) {
+      errorHandler.logGeneralError(
+        error,
+        "generateHotp",
+        "Failed to generate one-time password"
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generates a time-based one-time password (RFC 6238), e.g. for the MFA step of a login flow.
+   *
+   * @param secret - The shared secret, base32 encoded or as raw bytes.
+   * @param options - The algorithm, digits, period and time. Defaults to SHA1, 6 digits, 30 seconds and now.
+   * @returns The one-time password.
+   * @throws {Error} If the secret is invalid.
+   */
+  public static generateTotp(
+    secret: string | Buffer,
+    options: interfaces.TotpOptions = {}
+  ): string {
+    const { algorithm, digits, period, timestamp } = this.resolveOptions(options);
+    return this.generateHotp(
+      secret,
+      Math.floor(timestamp / 1000 / period),
+      digits,
+      algorithm
+    );
+  }
+
+  /**
+   * Generates a time-based one-time password that stays valid for at least the given number
+   * of seconds. If the current password is about to expire, this waits for the next period,
+   * so the password is not rejected between typing and submitting it.
+   *
+   * @param secret - The shared secret, base32 encoded or as raw bytes.
+   * @param minValiditySeconds - The minimum number of seconds the password must stay valid. Defaults to 5.
+   * @param options - The algorithm, digits and period.
+   * @returns The one-time password.
+   * @throws {Error} If the secret is invalid.
+   */
+  public static async generateFreshTotp(
+    secret: string | Buffer,
+    minValiditySeconds: number = 5,
+    options: Omit<interfaces.TotpOptions, "timestamp"> = {}
+  ): Promise<string> {
+    const remainingSeconds = this.getRemainingSeconds(options.period);
+    if (remainingSeconds < minValiditySeconds) {
+      logger.info(
+        `One-time password expires in ${remainingSeconds}s, waiting for the next period.`
+      );
+      await new Promise((resolve) => setTimeout(resolve, remainingSeconds * 1000));
+    }
+    return this.generateTotp(secret, options);
+  }
+
+  /**
+   * Verifies a time-based one-time password, accepting the given number of periods before and
+   * after the current one to allow for clock drift. The comparison runs in constant time.
+   *
+   * @param code - The one-time password to verify.
+   * @param secret - The shared secret, base32 encoded or as raw bytes.
+   * @param window - The number of periods accepted on either side. Defaults to 1.
+   * @param options - The algorithm, digits, period and time.
+   * @returns True if the password is valid, otherwise false.
+   */
+  public static verifyTotp(
+    code: string,
+    secret: string | Buffer,
+    window: number = 1,
+    options: interfaces.TotpOptions = {}
+  ): boolean {
+    const { period, timestamp } = this.resolveOptions(options);
+    const codeBuffer = Buffer.from(code);
+    let valid = false;
+
+    for (let step = -window; step <= window; step++) {
+      const expected = Buffer.from(
+        this.generateTotp(secret, { ...options, timestamp: timestamp + step * period * 1000 })
+      );
+      // keep checking every period, so the time taken does not reveal which one matched
+      valid =
+        (expected.length === codeBuffer.length && crypto.timingSafeEqual(expected, codeBuffer)) ||
+        valid;
+    }
+    return valid;
+  }
+
+  /**
+   * Returns the number of whole seconds until the current time-based password expires.
+   *
+   * @param period - The period in seconds. Defaults to 30.
+   * @param timestamp - The time in milliseconds since the epoch. Defaults to now.
+   * @returns The remaining seconds.
+   */
+  public static getRemainingSeconds(
+    period: number = this.DEFAULT_PERIOD,
+    timestamp: number = Date.now()
+  ): number {
+    return period - (Math.floor(timestamp / 1000) % period);
+  }
+
+  private static resolveOptions(
+    options: interfaces.TotpOptions
+  ): Required<interfaces.TotpOptions> {
+    return {
+      algorithm: options.algorithm ?? OtpAlgorithm.SHA1,
+      digits: options.digits ?? this.DEFAULT_DIGITS,
+      period: options.period ?? this.DEFAULT_PERIOD,
+      timestamp: options.timestamp ?? Date.now(),
+    };
+  }
+}
@@ -0,0 +1,340 @@
+import { isDeepStrictEqual } from "util";
+import errorHandler from "../helpers/errorHandler";
+import * as interfaces from "../models/interfaces";
+
+/**
+ * Validates JSON values against the subset of JSON Schema used by API contracts, including the
+ * OpenAPI 3.0 dialect (nullable, boolean exclusiveMinimum and exclusiveMaximum). Every problem is
+ * reported with the path of the offending value, e.g. "$.items[3].price: expected number,
+ * received string", instead of stopping at the first one.
+ *
+ * Local references ($ref: "#/...") are resolved against the given root document, so the schemas
+ * of an OpenAPI document can be validated as they are. Keywords outside the subset are ignored.
+ */
+export default class SchemaValidator {
+  private static readonly FORMATS: Record<string, RegExp> = {
+    "date-time":
+      /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:?\d{2})$/,
+    date: /^\d{4}-\d{2}-\d{2}$/,
+    email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+    uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+    uri: /^[A-Za-z][A-Za-z0-9+.-]*:\S*$/,
+  };
+
+  private static readonly IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+  /**
+   * Validates a value against a schema.
+   *
+   * @param value - The value, e.g. the parsed body of a response.
+   * @param schema - The schema.
+   * @param rootDocument - The document that local references are resolved against.
+   *                       Defaults to the schema.
+   * @returns The problems found, empty if the value is valid.
+   * @throws {Error} If the schema has a reference that cannot be resolved.
+   */
+  public static validate(
+    value: unknown,
+    schema: interfaces.JsonSchema,
+    rootDocument: object = schema
+  ): interfaces.SchemaValidationIssue[] {
+    const issues: interfaces.SchemaValidationIssue[] = [];
+    this.validateNode(value, schema, "$", rootDocument, issues);
+    return issues;
+  }
+
+  /**
+   * Formats problems as one line each, e.g. "$.items[3].price: expected number, received string".
+   *
+   * @param issues - The problems.
+   * @param maxIssues - The maximum number of problems listed, the rest are counted.
+   * @returns The formatted problems.
+   */
+  public static formatIssues(
+    issues: interfaces.SchemaValidationIssue[],
+    maxIssues = issues.length
+  ): string {
+    const lines = issues.slice(0, maxIssues).map((issue) => `${issue.path}: ${issue.message}`);
+    if (issues.length > maxIssues) {
+      lines.push(`... and ${issues.length - maxIssues} more`);
+    }
+    return lines.join("\n");
+  }
+
+  /**
+   * Resolves a local reference, e.g. #/components/schemas/Item, as a JSON pointer.
+   *
+   * @param ref - The reference.
+   * @param rootDocument - The document the reference points into.
+   * @returns The referenced value.
+   * @throws {Error} If the reference is not local or points to nothing.
+   */
+  public static resolveRef<T>(ref: string, rootDocument: object): T {
+    if (!ref.startsWith("#")) {
+      return errorHandler.logAndThrowError(`Only local references are supported, got ${ref}`);
+    }
+
+    let target: unknown = rootDocument;
+    for (const token of ref.slice(1).split("/").filter(Boolean)) {
+      const key = decodeURIComponent(token).replace(/~1/g, "/").replace(/~0/g, "~");
+      target =
+        target !== null && typeof target === "object"
+          ? (target as Record<string, unknown>)[key]
+          : undefined;
+    }
+
+    if (target === undefined) {
+      return errorHandler.logAndThrowError(`Unresolved schema reference ${ref}`);
+    }
+    return target as T;
+  }
+
+  private static validateNode(
+    value: unknown,
+    schema: interfaces.JsonSchema,
+    path: string,
+    rootDocument: object,
+    issues: interfaces.SchemaValidationIssue[]
+  ): void {
+    if (schema.$ref) {
+      schema = this.resolveRef<interfaces.JsonSchema>(schema.$ref, rootDocument);
+    }
+    const report = (message: string) => issues.push({ path, message });
+
+    if (value === null && schema.nullable) {
+      return;
+    }
+    if (schema.type !== undefined) {
+      const types = [schema.type].flat();
+      if (!types.some((type) => this.isOfType(value, type))) {
+        // the other keywords are meaningless for a value of the wrong type
+        report(`expected ${types.join(" or ")}, received ${this.describeType(value)}`);
+        return;
+      }
+    }
+
+    if (schema.enum && !schema.enum.some((allowed) => isDeepStrictEqual(allowed, value))) {
+      report(
+        `expected one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(", ")}, ` +
+          `received ${JSON.stringify(value)}`
+      );
+    }
+    if (schema.const !== undefined && !isDeepStrictEqual(schema.const, value)) {
+      report(`expected ${JSON.stringify(schema.const)}, received ${JSON.stringify(value)}`);
+    }
+
+    if (typeof value === "string") {
+      this.validateString(value, schema, report);
+    } else if (typeof value === "number") {
+      this.validateNumber(value, schema, report);
+    } else if (Array.isArray(value)) {
+      this.validateArray(value, schema, path, rootDocument, issues);
+    } else if (value !== null && typeof value === "object") {
+      this.validateObject(value as Record<string, unknown>, schema, path, rootDocument, issues);
+    }
+
+    this.validateCombinators(value, schema, path, rootDocument, issues);
+  }
+
+  private static validateString(
+    value: string,
+    schema: interfaces.JsonSchema,
+    report: (message: string) => void
+  ): void {
+    // lengths are counted in code points, as JSON Schema requires
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      report(`expected at least ${schema.minLength} characters, received ${length}`);
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      report(`expected at most ${schema.maxLength} characters, received ${length}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+      report(`expected to match pattern ${schema.pattern}, received ${JSON.stringify(value)}`);
+    }
+
+    const format = schema.format ? this.FORMATS[schema.format] : undefined;
+    if (format && (!format.test(value) || !this.isValidDate(value, schema.format!))) {
+      report(`expected ${schema.format} format, received ${JSON.stringify(value)}`);
+    }
+  }
+
+  private static validateNumber(
+    value: number,
+    schema: interfaces.JsonSchema,
+    report: (message: string) => void
+  ): void {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema;
+
+    if (minimum !== undefined && (exclusiveMinimum === true ? value <= minimum : value < minimum)) {
+      report(`expected ${exclusiveMinimum === true ? ">" : ">="} ${minimum}, received ${value}`);
+    }
+    if (maximum !== undefined && (exclusiveMaximum === true ? value >= maximum : value > maximum)) {
+      report(`expected ${exclusiveMaximum === true ? "<" : "<="} ${maximum}, received ${value}`);
+    }
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+      report(`expected > ${exclusiveMinimum}, received ${value}`);
+    }
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+      report(`expected < ${exclusiveMaximum}, received ${value}`);
+    }
+    if (multipleOf !== undefined && !Number.isInteger(Number((value / multipleOf).toFixed(9)))) {
+      report(`expected a multiple of ${multipleOf}, received ${value}`);
+    }
+  }
+
+  private static validateArray(
+    value: unknown[],
+    schema: interfaces.JsonSchema,
+    path: string,
+    rootDocument: object,
+    issues: interfaces.SchemaValidationIssue[]
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({
+        path,
+        message: `expected at least ${schema.minItems} items, received ${value.length}`,
+      });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({
+        path,
+        message: `expected at most ${schema.maxItems} items, received ${value.length}`,
+      });
+    }
+    if (schema.uniqueItems) {
+      const duplicate = value.findIndex((item, index) =>
+        value.slice(0, index).some((previous) => isDeepStrictEqual(previous, item))
+      );
+      if (duplicate !== -1) {
+        issues.push({
+          path: `${path}[${duplicate}]`,
+          message: "expected unique items, received a duplicate",
+        });
+      }
+    }
+
+    if (schema.items) {
+      value.forEach((item, index) =>
+        this.validateNode(item, schema.items!, `${path}[${index}]`, rootDocument, issues)
+      );
+    }
+  }
+
+  private static validateObject(
+    value: Record<string, unknown>,
+    schema: interfaces.JsonSchema,
+    path: string,
+    rootDocument: object,
+    issues: interfaces.SchemaValidationIssue[]
+  ): void {
+    const properties = schema.properties ?? {};
+
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        issues.push({ path: this.propertyPath(path, name), message: "missing required property" });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPath = this.propertyPath(path, name);
+      if (properties[name]) {
+        this.validateNode(propertyValue, properties[name], propertyPath, rootDocument, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: propertyPath, message: "unexpected property" });
+      } else if (typeof schema.additionalProperties === "object") {
+        const additionalSchema = schema.additionalProperties;
+        this.validateNode(propertyValue, additionalSchema, propertyPath, rootDocument, issues);
+      }
+    }
+  }
+
+  private static validateCombinators(
+    value: unknown,
+    schema: interfaces.JsonSchema,
+    path: string,
+    rootDocument: object,
+    issues: interfaces.SchemaValidationIssue[]
+  ): void {
+    for (const subschema of schema.allOf ?? []) {
+      this.validateNode(value, subschema, path, rootDocument, issues);
+    }
+
+    if (schema.anyOf || schema.oneOf) {
+      const branches = (schema.anyOf ?? schema.oneOf)!.map((subschema) =>
+        this.validate(value, subschema, rootDocument)
+      );
+      const matches = branches.filter((branchIssues) => branchIssues.length === 0).length;
+      const keyword = schema.anyOf ? "anyOf" : "oneOf";
+
+      if (matches === 0) {
+        // the closest branch explains the mismatch best: the one with the fewest problems,
+        // and of those the one that got deepest into the value
+        const closest = branches.reduce((best, branch) =>
+          branch.length < best.length ||
+          (branch.length === best.length && branch[0].path.length > best[0].path.length)
+            ? branch
+            : best
+        );
+        issues.push({
+          path,
+          message: `expected to match one of the ${branches.length} schemas of ${keyword}`,
+        });
+        issues.push(
+          ...closest.map((issue) => ({ path: path + issue.path.slice(1), message: issue.message }))
+        );
+      } else if (keyword === "oneOf" && matches > 1) {
+        issues.push({
+          path,
+          message: `expected to match exactly one schema of oneOf, matched ${matches}`,
+        });
+      }
+    }
+
+    if (schema.not && this.validate(value, schema.not, rootDocument).length === 0) {
+      issues.push({ path, message: "expected not to match the schema of not" });
+    }
+  }
+
+  private static isOfType(value: unknown, type: interfaces.JsonSchemaType): boolean {
+    switch (type) {
+      case "null":
+        return value === null;
+      case "array":
+        return Array.isArray(value);
+      case "object":
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+      case "integer":
+        return Number.isInteger(value);
+      case "number":
+        return typeof value === "number" && Number.isFinite(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
+  private static describeType(value: unknown): string {
+    if (value === null) {
+      return "null";
+    }
+    return Array.isArray(value) ? "array" : typeof value;
+  }
+
+  // Rejects dates that match the format but do not exist, e.g. 2024-02-30
+  private static isValidDate(value: string, format: string): boolean {
+    if (format !== "date" && format !== "date-time") {
+      return true;
+    }
+    const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return (
+      date.getUTCFullYear() === year &&
+      date.getUTCMonth() === month - 1 &&
+      date.getUTCDate() === day
+    );
+  }
+
+  private static propertyPath(path: string, name: string): string {
+    return this.IDENTIFIER.test(name) ? `${path}.${name}` : `${path}[${JSON.stringify(name)}]`;
+  }
+}
@@ -0,0 +1,172 @@
+import winston from "winston";
+import envSchema from "../config/envSchema";
+import KeyPatternUtil from "./keyPatternUtil";
+import * as appSettings from "../config/appSettings.json";
+
+/**
+ * Masks secrets in log output. The logger applies the redaction format before any transport,
+ * so the console and every log file only ever see masked messages.
+ *
+ * Masked are: the values registered in this process, e.g. revealed secrets, data keys and API
+ * credentials, the values of the secret variables that global setup decrypted (published by
+ * name in ENV_DECRYPTED_KEYS, so the test workers mask them too), the values of the variables
+ * declared as encrypted in the environment schema or matching LOG_REDACTION.keys, the
+ * credentials of Authorization headers, and the regular expressions in LOG_REDACTION.patterns
+ * in appSettings.json.
+ *
+ * A variable is a secret if the environment schema declares it as encrypted, its name matches
+ * LOG_REDACTION.keys, or it matches the default ENCRYPTION_RULES. Other decrypted values, such
+ * as URLs and hostnames, are not masked.
+ *
+ * This module must not log, since it is used by the logger itself.
+ */
+export default class SecretRedactor {
+  // Names of the variables decrypted during global setup, inherited by the test workers
+  public static readonly DECRYPTED_KEYS_VARIABLE = "ENV_DECRYPTED_KEYS";
+
+  // Credentials of Authorization headers, e.g. Authorization: Bearer x or "Authorization":"Basic x";
+  // the header name and the scheme are kept
+  private static readonly AUTHORIZATION_PATTERN =
+    /(?<=\bAuthorization"?\s*[:=]\s*"?(?:Bearer|Basic)\s+)[A-Za-z0-9\-._~+/]+=*/gi;
+
+  // Patterns of the names of the variables whose values are masked
+  private static readonly REDACTED_KEY_PATTERNS = appSettings.LOG_REDACTION.keys.map((pattern) =>
+    KeyPatternUtil.toRegex(pattern)
+  );
+  private static readonly SECRET_KEY_PATTERNS = {
+    include: appSettings.ENCRYPTION_RULES.default.include.map((pattern) =>
+      KeyPatternUtil.toRegex(pattern)
+    ),
+    exclude: appSettings.ENCRYPTION_RULES.default.exclude.map((pattern) =>
+      KeyPatternUtil.toRegex(pattern)
+    ),
+  };
+
+  // Values registered during this run, e.g. revealed secrets and API credentials
+  private static registeredSecrets = new Set<string>();
+
+  private static configuredPatterns?: RegExp[];
+
+  /**
+   * Registers a value that must never appear in the logs.
+   * Values shorter than LOG_REDACTION.minLength are ignored, as masking them would
+   * mask unrelated text.
+   *
+   * @param value - The secret value.
+   */
+  public static register(value: string | undefined): void {
+    if (value && value.length >= appSettings.LOG_REDACTION.minLength) {
+      SecretRedactor.registeredSecrets.add(value);
+    }
+  }
+
+  /**
+   * Registers the value of a variable if the variable is a secret, see isSecretKey.
+   *
+   * @param key - The name of the variable.
+   * @param value - The value of the variable.
+   */
+  public static registerVariable(key: string, value: string | undefined): void {
+    if (SecretRedactor.isSecretKey(key)) {
+      SecretRedactor.register(value);
+    }
+  }
+
+  /**
+   * Forgets every registered value, e.g. between tests that share a worker. The values of
+   * the secret variables are read from the environment and stay masked.
+   */
+  public static clearRegisteredSecrets(): void {
+    SecretRedactor.registeredSecrets.clear();
+  }
+
+  /**
+   * Checks whether a variable holds a secret: it is declared as encrypted in the environment
+   * schema, its name matches LOG_REDACTION.keys, or it matches the default ENCRYPTION_RULES.
+   *
+   * @param key - The name of the variable.
+   * @returns True if the value of the variable must be masked.
+   */
+  public static isSecretKey(key: string): boolean {
+    const { include, exclude } = SecretRedactor.SECRET_KEY_PATTERNS;
+    return (
+      envSchema[key]?.encrypted === true ||
+      KeyPatternUtil.matchesAny(key, SecretRedactor.REDACTED_KEY_PATTERNS) ||
+      (KeyPatternUtil.matchesAny(key, include) && !KeyPatternUtil.matchesAny(key, exclude))
+    );
+  }
+
+  /**
+   * Replaces every secret in the given text with the mask.
+   *
+   * @param text - The text to redact.
+   * @returns The redacted text.
+   */
+  public static redact(text: string): string {
+    const mask = appSettings.LOG_REDACTION.mask;
+
+    // longest first, so a secret that contains another one is masked as a whole
+    const secrets = [...SecretRedactor.getSecrets()].sort((a, b) => b.length - a.length);
+    let redacted = text;
+    for (const secret of secrets) {
+      redacted = redacted.split(secret).join(mask);
+    }
+
+    for (const pattern of [
+      SecretRedactor.AUTHORIZATION_PATTERN,
+      ...SecretRedactor.getConfiguredPatterns(),
+    ]) {
+      redacted = redacted.replace(pattern, mask);
+    }
+    return redacted;
+  }
+
+  /**
+   * Returns the winston format that redacts the message and every other string property
+   * of a log entry except its level.
+   *
+   * @returns The redaction format.
+   */
+  public static format(): winston.Logform.Format {
+    return winston.format((info) => {
+      for (const key of Object.keys(info)) {
+        if (key !== "level" && typeof info[key] === "string") {
+          info[key] = SecretRedactor.redact(info[key] as string);
+        }
+      }
+      return info;
+    })();
+  }
+
+  /**
+   * Returns the registered secrets together with the current values of the variables that
+   * hold secrets. Variables are read on every call, so rotated keys are masked as well.
+   *
+   * @returns The values to mask.
+   */
+  private static getSecrets(): Set<string> {
+    const decryptedKeys = (process.env[SecretRedactor.DECRYPTED_KEYS_VARIABLE] ?? "")
+      .split(",")
+      .filter((key) => key && SecretRedactor.isSecretKey(key));
+    const schemaKeys = Object.keys(envSchema).filter((key) => envSchema[key].encrypted);
+    const matchingKeys = Object.keys(process.env).filter((key) =>
+      KeyPatternUtil.matchesAny(key, SecretRedactor.REDACTED_KEY_PATTERNS)
+    );
+
+    const secrets = new Set(SecretRedactor.registeredSecrets);
+    for (const key of [...decryptedKeys, ...schemaKeys, ...matchingKeys]) {
+      const value = process.env[key];
+      if (value && value.length >= appSettings.LOG_REDACTION.minLength) {
+        secrets.add(value);
+      }
+    }
+    return secrets;
+  }
+
+  private static getConfiguredPatterns(): RegExp[] {
+    SecretRedactor.configuredPatterns ??= appSettings.LOG_REDACTION.patterns.map(
+      (pattern) => new RegExp(pattern, "g")
+    );
+    return SecretRedactor.configuredPatterns;
+  }
+}